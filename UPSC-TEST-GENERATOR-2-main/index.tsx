@@ -1,4 +1,4 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, Type, ContentListUnion, FinishReason, GenerateContentResponse } from "@google/genai";
 import * as pdfjsLib from 'pdfjs-dist';
 
 // --- Type Definitions ---
@@ -9,13 +9,95 @@ interface User {
     createdAt: string;
 }
 
-interface Question {
-    question: string;
+// UPSC formats are all single-answer in the end: each variant adds the structured parts of its stem
+type QuestionType = 'mcq' | 'assertionReason' | 'matchFollowing' | 'statementCount' | 'comprehension';
+
+type Difficulty = 'easy' | 'medium' | 'hard';
+
+interface QuestionBase {
+    question: string; // Full question, or the lead-in line for structured formats
     options: string[];
     answer: number; // 0-indexed integer for the correct option
     explanation: string;
     subject: string;
     topic: string;
+    id?: string; // Question bank id, assigned when the question is first saved
+    version?: number; // Bank version this copy reflects
+    tags?: string[]; // Bank tags; not part of the versioned content
+    sourcePage?: number; // 1-indexed PDF page the question was drawn from
+    difficulty?: Difficulty;
+    difficultyScore?: number; // 1 (easiest) to 10 (hardest), finer-grained than the level
+    syllabusNodeId?: string; // Canonical node in UPSC_SYLLABUS
+    syllabusVersion?: string; // Syllabus version the automatic tag was computed against
+    syllabusOverride?: boolean; // Set when the node was picked manually in the editor
+    marks?: number; // Overrides the section's and test's marks for this question
+    negativeMarks?: number; // Overrides the section's and test's negative marking
+    scoring?: QuestionScoring; // Absent for normally scored questions
+}
+
+// 'bonus' awards full marks to everyone; 'dropped' takes the question out of scoring altogether
+type QuestionScoring = 'bonus' | 'dropped';
+
+// A correction to a question's answer key, applied to the question everywhere it is stored
+interface AnswerKeyRevision {
+    id: string;
+    questionId: string; // Question bank id
+    questionPreview: string;
+    answer?: { from: number; to: number };
+    scoring?: { from: QuestionScoring | null; to: QuestionScoring | null };
+    reason: string;
+    revisedAt: string;
+    attemptsRescored: number;
+}
+
+// Audit entry kept on each attempt a revision re-scored
+interface AppliedKeyRevision {
+    revisionId: string;
+    questionIndex: number;
+    description: string;
+    reason: string;
+    revisedAt: string;
+    scoreBefore: number; // percentage
+    scoreAfter: number;
+    marksBefore: number;
+    marksAfter: number;
+}
+
+interface McqQuestion extends QuestionBase {
+    type?: 'mcq'; // Absent on questions saved before question formats existed
+}
+
+interface AssertionReasonQuestion extends QuestionBase {
+    type: 'assertionReason';
+    assertion: string;
+    reason: string;
+}
+
+interface MatchFollowingQuestion extends QuestionBase {
+    type: 'matchFollowing';
+    listI: string[];
+    listII: string[];
+}
+
+interface StatementCountQuestion extends QuestionBase {
+    type: 'statementCount';
+    statements: string[];
+}
+
+interface ComprehensionQuestion extends QuestionBase {
+    type: 'comprehension';
+    passageId?: string; // References Test.passages; questions sharing a passage form a group
+    passage?: string; // Inline passage text, only until attachPassages moves it onto the test
+}
+
+type Question = McqQuestion | AssertionReasonQuestion | MatchFollowingQuestion | StatementCountQuestion | ComprehensionQuestion;
+
+interface TestProvenance {
+    fileName: string;
+    totalPages: number;
+    pageStart: number; // 1-indexed, inclusive
+    pageEnd: number; // 1-indexed, inclusive
+    chapter?: string; // PDF bookmark title, when a chapter was picked
 }
 
 interface Test {
@@ -27,6 +109,27 @@ interface Test {
     createdAt: string;
     marksPerQuestion: number;
     negativeMarking: number;
+    cutoffProfileId?: string; // Cut-off the test is judged against; the analytics default when absent
+    provenance?: TestProvenance; // Source document and page range the test was generated from
+    passages?: Passage[]; // Shared reading passages referenced by comprehension questions
+    reviewSession?: boolean; // Built from the spaced-repetition queue; its attempt updates the schedule but is not saved to history
+    sections?: TestSection[]; // Consecutive runs of questions, in order; see sectionRanges
+    sectionLocked?: boolean; // Navigation stays within the current section, which can't be revisited once left
+}
+
+interface TestSection {
+    id: string;
+    name: string;
+    questionCount: number;
+    duration?: number; // Time limit in minutes; set on every section or none, and implies sectionLocked
+    marksPerQuestion?: number; // Overrides the test's marking for the section's questions
+    negativeMarking?: number;
+}
+
+interface Passage {
+    id: string;
+    title?: string;
+    text: string;
 }
 
 interface TestAttempt {
@@ -34,18 +137,85 @@ interface TestAttempt {
     testName: string;
     userAnswers: (number | null)[];
     timeTaken: number; // in seconds
-    timePerQuestion: number[]; // in seconds for each question
+    timePerQuestion: number[]; // in seconds for each question (derived from events on load when there is a log)
     completedAt: string;
-    score: number;
+    score: number; // Percentage of max marks, floored at 0
+    rawMarks?: number; // Net marks, negative when penalties outweigh correct answers
+    maxMarks?: number;
     totalQuestions: number;
     correctAnswers: number;
     incorrectAnswers: number;
     unanswered: number;
     fullTest: Test;
+    deeperAnalyses?: { [key: string]: StoredAnalysis }; // AI deeper analyses, see analysisKey
+    mode?: AttemptMode; // Missing on attempts saved before practice mode, which were all exams
+    sectionTimes?: number[]; // Seconds used per section, recorded under sectional timing
+    confidence?: (Confidence | null)[]; // Per question, as marked during the attempt
+    eliminations?: number[][]; // Per question, the option indexes struck out
+    answerChanges?: AnswerChange[]; // Every change of selection, in order (derived from events)
+    visits?: QuestionVisit[]; // Every stay on a question, in order (derived from events)
+    events?: AttemptEvent[]; // Full interaction log, see AttemptEvent
+    strict?: boolean; // Taken in strict exam simulation
+    integrityEvents?: IntegrityEvent[]; // Recorded in strict mode only
+    keyRevisions?: AppliedKeyRevision[]; // Answer-key revisions this attempt was re-scored under, oldest first
+}
+
+// Times are seconds since the attempt started
+interface AnswerChange {
+    questionIndex: number;
+    from: number | null;
+    to: number | null;
+    at: number;
+}
+
+interface QuestionVisit {
+    questionIndex: number;
+    at: number;
+    duration: number; // in seconds
+}
+
+type AttemptEventType =
+    | 'start' | 'next' | 'prev' | 'jump' | 'section' // Arrival at the question in the event
+    | 'answer' | 'clear' | 'mark' | 'eliminate' | 'confidence' | 'check'
+    | 'idle' | 'active' | 'pause' | 'resume' | 'submit';
+
+// Stored as a tuple to keep long attempts compact:
+// [deciseconds since the attempt started, type, question index, value]
+// where value is the option for 'answer' (-1 when cleared) and 'eliminate', and the
+// CONFIDENCE_LEVELS index for 'confidence' (-1 when unset).
+type AttemptEvent = [number, AttemptEventType, number, number?];
+
+type AttemptMode = 'exam' | 'practice';
+type TimerMode = 'countDown' | 'countUp' | 'off';
+
+interface AttemptOptions {
+    mode: AttemptMode;
+    timer: TimerMode;
+    strict?: boolean; // Exam simulation: fullscreen, focus-loss tracking and no copying
+}
+
+type IntegrityEventType = 'fullscreenExit' | 'tabHidden' | 'windowBlur' | 'copy' | 'contextMenu';
+
+interface IntegrityEvent {
+    type: IntegrityEventType;
+    questionIndex: number;
+    at: number; // seconds since the attempt started
+    duration?: number; // seconds away, for fullscreen exits and focus losses
+}
+
+interface DeeperAnalysis {
+    userAnswerAnalysis: string;
+    otherOptionsAnalysis: { option: string; reason: string }[];
+}
+
+interface StoredAnalysis extends DeeperAnalysis {
+    generatedAt: string;
 }
 
 type QuestionStatus = 'notVisited' | 'notAnswered' | 'answered' | 'marked' | 'markedAndAnswered';
 
+type Confidence = 'sure' | 'fiftyFifty' | 'guess';
+
 // --- PDF.js Worker Setup ---
 // This is crucial for performance and to prevent errors.
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.4.168/build/pdf.worker.mjs`;
@@ -151,6 +321,7 @@ function loginUser(user: User, remember: boolean): void {
     userDisplayName.textContent = user.name;
     loginScreen.classList.add('hidden');
     mainView.classList.remove('hidden');
+    promptResumeAttempts();
 }
 
 function logoutUser(): void {
@@ -269,12 +440,17 @@ const testAttemptView = document.getElementById('test-attempt-view');
 const performanceView = document.getElementById('performance-view');
 const performanceReportView = document.getElementById('performance-report-view');
 const analyticsView = document.getElementById('analytics-view');
+const notebookView = document.getElementById('notebook-view');
 
 // Main Page Cards
 const createTestCard = document.querySelector('.card[aria-labelledby="create-test-title"]');
 const allTestsCard = document.querySelector('.card[aria-labelledby="all-tests-title"]');
 const performanceCard = document.querySelector('.card[aria-labelledby="performance-title"]');
 const analyticsCard = document.querySelector('.card[aria-labelledby="analytics-title"]');
+const reviewDueCard = document.querySelector('.card[aria-labelledby="review-due-title"]');
+const reviewDueSummary = document.getElementById('review-due-summary');
+const reviewDueBadge = document.getElementById('review-due-badge');
+const notebookCard = document.querySelector('.card[aria-labelledby="notebook-title"]');
 
 // Data Control Elements (for restore functionality)
 const restoreFileInput = document.getElementById('restore-file-input') as HTMLInputElement;
@@ -284,6 +460,7 @@ const backToHomeFromCreateBtn = document.getElementById('back-to-home-from-creat
 const backToHomeFromAllTestsBtn = document.getElementById('back-to-home-from-all-tests');
 const backToHomeFromPerformanceBtn = document.getElementById('back-to-home-from-performance');
 const backToHomeFromAnalyticsBtn = document.getElementById('back-to-home-from-analytics');
+const backToHomeFromNotebookBtn = document.getElementById('back-to-home-from-notebook');
 const backToCreateBtn = document.getElementById('back-to-create');
 const backToAllTestsFromDetailBtn = document.getElementById('back-to-all-tests-from-detail');
 const backToPerformanceListBtn = document.getElementById('back-to-performance-list');
@@ -299,12 +476,38 @@ const languageSelect = document.getElementById('language-select') as HTMLSelectE
 const durationInput = document.getElementById('duration-input') as HTMLInputElement;
 const marksInput = document.getElementById('marks-input') as HTMLInputElement;
 const negativeInput = document.getElementById('negative-input') as HTMLSelectElement;
+const questionFormatOptions = document.getElementById('question-format-options');
+const passageModeCheckbox = document.getElementById('passage-mode-checkbox') as HTMLInputElement;
+const difficultyEasyInput = document.getElementById('difficulty-easy-input') as HTMLInputElement;
+const difficultyMediumInput = document.getElementById('difficulty-medium-input') as HTMLInputElement;
+const difficultyHardInput = document.getElementById('difficulty-hard-input') as HTMLInputElement;
+const difficultyMixTotal = document.getElementById('difficulty-mix-total');
+const editablePassagesContainer = document.getElementById('editable-passages-container');
+const editCutoffSelect = document.getElementById('edit-cutoff-select') as HTMLSelectElement;
+const editableSectionsContainer = document.getElementById('editable-sections-container');
 const testNameInput = document.getElementById('test-name-input') as HTMLInputElement;
 const fileUpload = document.getElementById('file-upload') as HTMLInputElement;
+const pdfRangeOptions = document.getElementById('pdf-range-options');
+const pdfInfo = document.getElementById('pdf-info');
+const pdfChapterGroup = document.getElementById('pdf-chapter-group');
+const pdfChapterSelect = document.getElementById('pdf-chapter-select') as HTMLSelectElement;
+const pageStartInput = document.getElementById('page-start-input') as HTMLInputElement;
+const pageEndInput = document.getElementById('page-end-input') as HTMLInputElement;
 const textInput = document.getElementById('text-input') as HTMLTextAreaElement;
 const manualInput = document.getElementById('manual-input') as HTMLTextAreaElement;
+const bankContent = document.getElementById('bank-content');
+const bankSubjectOptions = document.getElementById('bank-subject-options');
+const bankTopicOptions = document.getElementById('bank-topic-options');
+const bankDifficultyOptions = document.getElementById('bank-difficulty-options');
+const bankHistorySelect = document.getElementById('bank-history-select') as HTMLSelectElement;
+const bankMatchCount = document.getElementById('bank-match-count');
 const generateTestBtn = document.getElementById('generate-test-btn') as HTMLButtonElement;
 const loader = document.getElementById('loader');
+const ocrReviewPanel = document.getElementById('ocr-review-panel');
+const ocrReviewSummary = document.getElementById('ocr-review-summary');
+const ocrReviewPages = document.getElementById('ocr-review-pages');
+const ocrGenerateBtn = document.getElementById('ocr-generate-btn') as HTMLButtonElement;
+const ocrDiscardBtn = document.getElementById('ocr-discard-btn');
 
 // Edit Test View Elements
 const editTestTitle = editTestView.querySelector('h2');
@@ -316,6 +519,50 @@ const saveTestBtn = document.getElementById('save-test-btn');
 const allTestsContainer = document.getElementById('all-tests-container');
 const importTestBtn = document.getElementById('import-test-btn');
 const importTestInput = document.getElementById('import-test-input') as HTMLInputElement;
+const findDuplicatesBtn = document.getElementById('find-duplicates-btn');
+const duplicatesModal = document.getElementById('duplicates-modal');
+const duplicatesModalTitle = document.getElementById('duplicates-modal-title');
+const duplicatesModalBody = document.getElementById('duplicates-modal-body');
+const duplicatesModalActions = document.getElementById('duplicates-modal-actions');
+const closeDuplicatesModalBtn = document.getElementById('close-duplicates-modal-btn');
+
+// Resume Attempts Elements
+const resumeBanner = document.getElementById('resume-banner');
+const resumeBannerText = document.getElementById('resume-banner-text');
+const resumeModal = document.getElementById('resume-modal');
+const resumeAttemptsList = document.getElementById('resume-attempts-list');
+const closeResumeModalBtn = document.getElementById('close-resume-modal-btn');
+
+// Start Test Modal Elements
+const startTestModal = document.getElementById('start-test-modal');
+const startTestModalTitle = document.getElementById('start-test-modal-title');
+const practiceTimerOptions = document.getElementById('practice-timer-options');
+const strictModeOptions = document.getElementById('strict-mode-options');
+const strictModeCheckbox = document.getElementById('strict-mode-checkbox') as HTMLInputElement;
+const practiceTimerSelect = document.getElementById('practice-timer-select') as HTMLSelectElement;
+const confirmStartTestBtn = document.getElementById('confirm-start-test-btn');
+const closeStartTestModalBtn = document.getElementById('close-start-test-modal-btn');
+const analyticsModeSelect = document.getElementById('analytics-mode-select') as HTMLSelectElement;
+
+// Mistake Notebook Elements
+const notebookContainer = document.getElementById('notebook-container');
+const notebookSearchInput = document.getElementById('notebook-search-input') as HTMLInputElement;
+const notebookSubjectSelect = document.getElementById('notebook-subject-select') as HTMLSelectElement;
+const notebookTagFilters = document.getElementById('notebook-tag-filters');
+const exportNotebookBtn = document.getElementById('export-notebook-btn');
+const notebookModal = document.getElementById('notebook-modal');
+const answerKeyModal = document.getElementById('answer-key-modal');
+const answerKeyModalBody = document.getElementById('answer-key-modal-body');
+const closeAnswerKeyModalBtn = document.getElementById('close-answer-key-modal-btn');
+const applyKeyRevisionBtn = document.getElementById('apply-key-revision-btn');
+const notebookModalTitle = document.getElementById('notebook-modal-title');
+const notebookModalQuestion = document.getElementById('notebook-modal-question');
+const notebookNotesInput = document.getElementById('notebook-notes-input') as HTMLTextAreaElement;
+const notebookTagsInput = document.getElementById('notebook-tags-input') as HTMLInputElement;
+const notebookTagSuggestions = document.getElementById('notebook-tag-suggestions');
+const notebookRemoveBtn = document.getElementById('notebook-remove-btn');
+const notebookSaveBtn = document.getElementById('notebook-save-btn');
+const closeNotebookModalBtn = document.getElementById('close-notebook-modal-btn');
 
 // Test Detail View Elements
 const testDetailContainer = document.getElementById('test-detail-container');
@@ -325,8 +572,19 @@ const testDetailActions = document.getElementById('test-detail-actions');
 // Test Attempt View Elements
 const attemptTestTitle = document.getElementById('attempt-test-title');
 const timeLeftEl = document.getElementById('time-left');
+const attemptTimer = document.getElementById('attempt-timer');
+const pauseTestBtn = document.getElementById('pause-test-btn');
+const pauseOverlay = document.getElementById('pause-overlay');
+const resumePausedBtn = document.getElementById('resume-paused-btn');
+const exitPausedBtn = document.getElementById('exit-paused-btn');
+const strictOverlay = document.getElementById('strict-overlay');
+const returnFullscreenBtn = document.getElementById('return-fullscreen-btn');
 const questionContentContainer = document.getElementById('question-content');
 const questionPaletteContainer = document.getElementById('question-palette');
+const paletteSectionTabs = document.getElementById('palette-section-tabs');
+const sectionBar = document.getElementById('section-bar');
+const sectionBarName = document.getElementById('section-bar-name');
+const nextSectionBtn = document.getElementById('next-section-btn');
 const saveNextBtn = document.getElementById('save-next-btn') as HTMLButtonElement;
 const markReviewBtn = document.getElementById('mark-review-btn') as HTMLButtonElement;
 const clearResponseBtn = document.getElementById('clear-response-btn') as HTMLButtonElement;
@@ -337,6 +595,14 @@ const toggleSidebarBtn = document.getElementById('toggle-sidebar-btn');
 const performanceContainer = document.getElementById('performance-container');
 const performanceReportTitle = document.getElementById('performance-report-title');
 const performanceSummaryContainer = document.getElementById('performance-summary-container');
+const marksBreakdownContainer = document.getElementById('marks-breakdown');
+const cutoffContainer = document.getElementById('cutoff-container');
+const sectionScoresCard = document.getElementById('section-scores-card');
+const sectionScoresContainer = document.getElementById('section-scores-container');
+const integrityCard = document.getElementById('integrity-card');
+const integrityContainer = document.getElementById('integrity-container');
+const keyRevisionsCard = document.getElementById('key-revisions-card');
+const keyRevisionsContainer = document.getElementById('key-revisions-container');
 // New Tab Containers
 const timeAnalysisContainer = document.getElementById('time-analysis-view');
 const subjectBreakdownContainer = document.getElementById('subject-breakdown-view');
@@ -347,6 +613,7 @@ const downloadReportBtn = document.getElementById('download-report-btn');
 // Analytics View Elements
 const analyticsStatsGrid = document.getElementById('analytics-stats-grid');
 const subjectMasteryContainer = document.getElementById('subject-mastery-container');
+const topicMasteryContainer = document.getElementById('topic-mastery-container');
 const analyticsModal = document.getElementById('analytics-modal');
 const closeModalBtn = document.getElementById('close-modal-btn');
 const modalSubjectTitle = document.getElementById('modal-subject-title');
@@ -372,8 +639,18 @@ let userAnswers: (number | null)[] = [];
 let questionStatuses: QuestionStatus[] = [];
 let timerInterval: number | null = null;
 let timeRemaining = 0; // in seconds
-let timePerQuestion: number[] = [];
-let questionStartTime = 0;
+let elapsedSeconds = 0; // Used instead of timeRemaining when the timer counts up or is off
+let attemptOptions: AttemptOptions = { mode: 'exam', timer: 'countDown' };
+let checkedQuestions: boolean[] = []; // Practice mode: questions whose answer has been revealed
+let activeAttemptId: string | null = null; // Key of the running attempt's checkpoint
+let attemptStartedAt = '';
+let attemptPaused = false;
+let sectionTimeUsed: number[] = []; // Sectional timing: seconds used in each finished section
+let confidenceLevels: (Confidence | null)[] = [];
+let eliminatedOptions: number[][] = [];
+let attemptEvents: AttemptEvent[] = [];
+let lastActivityAt = 0; // Date.now() of the latest input, for idle detection
+let attemptIdle = false;
 let currentAttemptForReport: TestAttempt | null = null;
 let reportReturnView: HTMLElement = performanceView;
 
@@ -471,225 +748,1605 @@ function showToast(options: ToastOptions | string) {
 const questionSchema = {
     type: Type.OBJECT,
     properties: {
-        question: { type: Type.STRING },
+        type: {
+            type: Type.STRING,
+            enum: ['mcq', 'assertionReason', 'matchFollowing', 'statementCount', 'comprehension'],
+            description: "The question format."
+        },
+        question: { type: Type.STRING, description: "The question, or its lead-in line for structured formats." },
         options: {
             type: Type.ARRAY,
             items: { type: Type.STRING },
-            description: "An array of 4 strings representing the options."
+            description: "An array of strings representing the options (usually 4)."
         },
         answer: { type: Type.INTEGER, description: "0-indexed integer for the correct option." },
         explanation: { type: Type.STRING },
         subject: { type: Type.STRING, description: "General subject, e.g., History, Geography, Polity." },
         topic: { type: Type.STRING, description: "Specific topic within the subject." },
+        sourcePage: { type: Type.INTEGER, description: "Page number (from the [Page N] markers) the question is based on, if page markers are present." },
+        difficulty: { type: Type.STRING, enum: ['easy', 'medium', 'hard'], description: "Difficulty for a UPSC aspirant." },
+        difficultyScore: { type: Type.INTEGER, description: "Difficulty on a 1 (easiest) to 10 (hardest) scale, consistent with the difficulty level." },
+        assertion: { type: Type.STRING, description: "assertionReason only: the Assertion (A)." },
+        reason: { type: Type.STRING, description: "assertionReason only: the Reason (R)." },
+        listI: { type: Type.ARRAY, items: { type: Type.STRING }, description: "matchFollowing only: List-I items." },
+        listII: { type: Type.ARRAY, items: { type: Type.STRING }, description: "matchFollowing only: List-II items." },
+        statements: { type: Type.ARRAY, items: { type: Type.STRING }, description: "statementCount only: the numbered statements." },
+        passage: { type: Type.STRING, description: "comprehension only: the reading passage." },
     },
-    required: ["question", "options", "answer", "explanation", "subject", "topic"]
+    required: ["type", "question", "options", "answer", "explanation", "subject", "topic", "difficulty"]
 };
 
-// --- Local Storage Utilities ---
-function getFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-        const item = localStorage.getItem(key);
-        return item ? JSON.parse(item) : defaultValue;
-    } catch (error) {
-        console.error(`Error reading from localStorage key “${key}”:`, error);
-        return defaultValue;
+// --- Question Formats ---
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+    mcq: 'Single Answer MCQ',
+    assertionReason: 'Assertion–Reason',
+    matchFollowing: 'Match the Following',
+    statementCount: 'How Many Statements Correct',
+    comprehension: 'Comprehension'
+};
+
+const ASSERTION_REASON_OPTIONS = [
+    'Both A and R are true, and R is the correct explanation of A',
+    'Both A and R are true, but R is not the correct explanation of A',
+    'A is true, but R is false',
+    'A is false, but R is true'
+];
+
+const QUESTION_FORMAT_GUIDE: Record<QuestionType, string> = {
+    mcq: '- "mcq": a standard question with four options.',
+    assertionReason: `- "assertionReason": put the assertion in "assertion" and the reason in "reason", use "question" for the lead-in, and use exactly these four options in this order: ${ASSERTION_REASON_OPTIONS.map(o => `"${o}"`).join(', ')}.`,
+    matchFollowing: '- "matchFollowing": put the List-I items in "listI" and the List-II items in "listII" (3–4 items each), use "question" for the instruction, and make the four options code combinations such as "A-2, B-1, C-4, D-3".',
+    statementCount: '- "statementCount": put 3–4 statements in "statements", ask "How many of the above statements are correct?" in "question", and use options such as "Only one", "Only two", "All three", "None".',
+    comprehension: '- "comprehension": put a short reading passage (150–250 words) in "passage" and the question about it in "question", with four options.'
+};
+
+function questionFormatInstructions(types: QuestionType[]): string {
+    if (types.length === 0 || (types.length === 1 && types[0] === 'mcq')) {
+        return 'Every question must be a standard single-answer question (type "mcq") with four options.';
     }
+    return `Use a mix of the following UPSC question formats, set "type" accordingly, and always give the 0-indexed correct option in "answer":\n${types.map(t => QUESTION_FORMAT_GUIDE[t]).join('\n')}`;
 }
 
-function saveToStorage<T>(key: string, value: T): void {
-    try {
-        localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-        console.error(`Error writing to localStorage key “${key}”:`, error);
-    }
+// --- UPSC Syllabus Taxonomy ---
+// Bundled copy of the Prelims/Mains GS syllabus. Bump the version whenever nodes or aliases
+// change so automatically tagged questions are re-classified (manual overrides are kept).
+interface SyllabusNode {
+    id: string;
+    name: string;
+    aliases?: string[]; // Other names and keywords generated subjects/topics use for this node
+    papers?: string[]; // Top-level areas only: where the area is examined
+    children?: SyllabusNode[];
 }
 
-// --- Data Restore Logic ---
-restoreFileInput.addEventListener('change', (event) => {
-    const input = event.target as HTMLInputElement;
-    const file = input.files?.[0];
-    if (!file) return;
+const UPSC_SYLLABUS: { version: string; areas: SyllabusNode[] } = {
+    version: '2025.1',
+    areas: [
+        {
+            id: 'history', name: 'History', aliases: ['history', 'historical'], papers: ['Prelims GS', 'Mains GS-I'],
+            children: [
+                { id: 'history.ancient', name: 'Ancient History', aliases: ['ancient', 'harappan', 'indus valley', 'vedic', 'mauryan', 'gupta', 'buddhism', 'jainism', 'sangam', 'mahajanapadas'] },
+                { id: 'history.medieval', name: 'Medieval History', aliases: ['medieval', 'delhi sultanate', 'mughal', 'vijayanagara', 'bhakti', 'sufi', 'maratha', 'cholas', 'rajputs'] },
+                { id: 'history.modern', name: 'Modern History & Freedom Struggle', aliases: ['modern', 'freedom struggle', 'national movement', 'british rule', 'colonial', 'revolt 1857', 'congress sessions', 'gandhian', 'socio religious reform', 'governor general', 'east india company'] },
+                { id: 'history.post-independence', name: 'Post-Independence India', aliases: ['post independence', 'integration princely states', 'reorganisation states', 'reorganization states', 'consolidation'] },
+                { id: 'history.art-culture', name: 'Art & Culture', aliases: ['art culture', 'culture', 'architecture', 'temple architecture', 'painting', 'dance', 'music', 'literature', 'heritage', 'festivals', 'sculpture', 'philosophy'] },
+                { id: 'history.world', name: 'World History', aliases: ['world history', 'industrial revolution', 'world war', 'french revolution', 'colonization', 'decolonization', 'cold war'] }
+            ]
+        },
+        {
+            id: 'geography', name: 'Geography', aliases: ['geography', 'geographical'], papers: ['Prelims GS', 'Mains GS-I'],
+            children: [
+                { id: 'geography.physical', name: 'Physical Geography', aliases: ['physical', 'geomorphology', 'climatology', 'oceanography', 'earthquakes', 'volcanoes', 'landforms', 'atmosphere', 'monsoon', 'winds', 'ocean currents', 'plate tectonics', 'rocks', 'cyclones'] },
+                { id: 'geography.india', name: 'Indian Geography', aliases: ['india physiography', 'rivers', 'drainage', 'soils', 'himalayas', 'peninsular', 'indian climate', 'mineral resources', 'natural vegetation'] },
+                { id: 'geography.world', name: 'World Geography', aliases: ['world', 'continents', 'countries', 'straits', 'mapping', 'places in news'] },
+                { id: 'geography.human-economic', name: 'Human & Economic Geography', aliases: ['human', 'economic geography', 'population', 'urbanisation', 'urbanization', 'settlements', 'industries location', 'transport', 'agriculture geography', 'resources distribution'] },
+                { id: 'geography.disaster', name: 'Disaster Management', aliases: ['disaster', 'disaster management', 'floods', 'droughts', 'landslides', 'tsunami'] }
+            ]
+        },
+        {
+            id: 'polity', name: 'Indian Polity & Governance', aliases: ['polity', 'indian polity', 'constitution', 'constitutional', 'governance', 'political science', 'civics'], papers: ['Prelims GS', 'Mains GS-II'],
+            children: [
+                { id: 'polity.constitution', name: 'Constitutional Framework', aliases: ['constitution', 'preamble', 'fundamental rights', 'directive principles', 'dpsp', 'fundamental duties', 'amendment', 'basic structure', 'schedules', 'citizenship', 'constituent assembly', 'emergency provisions', 'writs'] },
+                { id: 'polity.union', name: 'Union Executive & Parliament', aliases: ['parliament', 'president', 'vice president', 'prime minister', 'council ministers', 'lok sabha', 'rajya sabha', 'speaker', 'union executive', 'legislature', 'bills', 'parliamentary committees'] },
+                { id: 'polity.states', name: 'State Government & Federalism', aliases: ['state government', 'governor', 'chief minister', 'state legislature', 'federalism', 'centre state relations', 'union territories', 'inter state'] },
+                { id: 'polity.judiciary', name: 'Judiciary', aliases: ['judiciary', 'supreme court', 'high court', 'judicial review', 'pil', 'tribunals', 'courts'] },
+                { id: 'polity.local', name: 'Local Government', aliases: ['panchayati raj', 'panchayat', 'local government', 'local self government', 'municipalities', '73rd amendment', '74th amendment', 'urban local bodies'] },
+                { id: 'polity.bodies', name: 'Constitutional & Statutory Bodies', aliases: ['election commission', 'cag', 'upsc', 'finance commission', 'constitutional bodies', 'statutory bodies', 'nhrc', 'niti aayog', 'cvc', 'lokpal', 'attorney general', 'elections'] },
+                { id: 'polity.governance', name: 'Governance, Policies & Rights Issues', aliases: ['governance', 'government policies', 'welfare schemes', 'transparency', 'accountability', 'rti', 'e governance', 'civil services', 'pressure groups', 'vulnerable sections', 'ngos', 'shg'] }
+            ]
+        },
+        {
+            id: 'economy', name: 'Indian Economy', aliases: ['economy', 'economics', 'indian economy', 'economic development'], papers: ['Prelims GS', 'Mains GS-III'],
+            children: [
+                { id: 'economy.basics', name: 'National Income & Growth', aliases: ['national income', 'gdp', 'gnp', 'growth', 'economic growth', 'planning', 'five year plans', 'economic survey', 'human development'] },
+                { id: 'economy.money-banking', name: 'Money, Banking & Financial Markets', aliases: ['money', 'banking', 'rbi', 'monetary policy', 'repo rate', 'reserve bank', 'capital market', 'sebi', 'financial markets', 'npa', 'insurance', 'payments'] },
+                { id: 'economy.fiscal', name: 'Public Finance & Budget', aliases: ['fiscal policy', 'budget', 'taxation', 'gst', 'fiscal deficit', 'public finance', 'public debt', 'subsidies'] },
+                { id: 'economy.inflation', name: 'Inflation & Prices', aliases: ['inflation', 'cpi', 'wpi', 'deflation', 'prices'] },
+                { id: 'economy.external', name: 'External Sector & Trade', aliases: ['external sector', 'balance payments', 'bop', 'foreign trade', 'exchange rate', 'fdi', 'fpi', 'wto', 'imf', 'world bank', 'trade agreements', 'current account'] },
+                { id: 'economy.agriculture', name: 'Agriculture & Food Security', aliases: ['agriculture', 'msp', 'food security', 'pds', 'irrigation', 'crops', 'land reforms', 'food processing', 'animal husbandry', 'farmers'] },
+                { id: 'economy.industry-infra', name: 'Industry & Infrastructure', aliases: ['industry', 'infrastructure', 'energy', 'ports', 'roads', 'railways', 'investment models', 'msme', 'industrial policy', 'make india'] },
+                { id: 'economy.inclusion', name: 'Poverty, Employment & Inclusive Growth', aliases: ['poverty', 'unemployment', 'employment', 'inclusive growth', 'inequality', 'social sector', 'financial inclusion'] }
+            ]
+        },
+        {
+            id: 'environment', name: 'Environment & Ecology', aliases: ['environment', 'ecology', 'environmental science', 'biodiversity'], papers: ['Prelims GS', 'Mains GS-III'],
+            children: [
+                { id: 'environment.ecology', name: 'Ecology & Ecosystems', aliases: ['ecosystem', 'ecosystems', 'food chain', 'ecological succession', 'biomes', 'wetlands', 'mangroves', 'coral reefs'] },
+                { id: 'environment.biodiversity', name: 'Biodiversity & Conservation', aliases: ['biodiversity', 'conservation', 'endangered species', 'iucn', 'national parks', 'wildlife sanctuaries', 'biosphere reserves', 'tiger reserves', 'protected areas', 'flora fauna', 'invasive species'] },
+                { id: 'environment.climate', name: 'Climate Change', aliases: ['climate change', 'global warming', 'greenhouse gases', 'unfccc', 'paris agreement', 'kyoto', 'carbon credits', 'ozone depletion', 'cop'] },
+                { id: 'environment.pollution', name: 'Pollution & Waste Management', aliases: ['pollution', 'air pollution', 'water pollution', 'waste management', 'plastic', 'e waste', 'solid waste'] },
+                { id: 'environment.laws', name: 'Environmental Laws, Bodies & Conventions', aliases: ['environment protection act', 'wildlife protection act', 'forest conservation', 'ngt', 'eia', 'ramsar', 'cites', 'cbd', 'environmental laws', 'conventions'] }
+            ]
+        },
+        {
+            id: 'science', name: 'Science & Technology', aliases: ['science', 'technology', 'science technology', 'general science', 'sci tech'], papers: ['Prelims GS', 'Mains GS-III'],
+            children: [
+                { id: 'science.biology', name: 'Biology & Health', aliases: ['biology', 'health', 'diseases', 'human body', 'vaccines', 'nutrition', 'genetics', 'cells', 'medicine'] },
+                { id: 'science.space', name: 'Space Technology', aliases: ['space', 'isro', 'satellites', 'chandrayaan', 'gaganyaan', 'launch vehicles', 'astronomy'] },
+                { id: 'science.defence', name: 'Defence Technology', aliases: ['defence', 'defense', 'missiles', 'drdo', 'military technology'] },
+                { id: 'science.it', name: 'IT, Computers & Emerging Tech', aliases: ['information technology', 'computers', 'artificial intelligence', 'ai', 'blockchain', 'internet', 'cyber', 'semiconductors', 'quantum', '5g', 'robotics', 'nanotechnology'] },
+                { id: 'science.biotech', name: 'Biotechnology', aliases: ['biotechnology', 'gm crops', 'genetic engineering', 'stem cells', 'crispr', 'cloning'] },
+                { id: 'science.energy', name: 'Nuclear & Energy Technology', aliases: ['nuclear', 'nuclear energy', 'renewable energy', 'solar', 'hydrogen', 'batteries'] },
+                { id: 'science.basics', name: 'Physics & Chemistry Basics', aliases: ['physics', 'chemistry', 'light', 'sound', 'electricity', 'magnetism', 'chemical reactions', 'elements', 'acids'] }
+            ]
+        },
+        {
+            id: 'ir', name: 'International Relations', aliases: ['international relations', 'foreign policy', 'world affairs', 'diplomacy'], papers: ['Prelims GS', 'Mains GS-II'],
+            children: [
+                { id: 'ir.neighbourhood', name: 'India & Its Neighbourhood', aliases: ['neighbourhood', 'neighborhood', 'pakistan', 'china', 'nepal', 'bangladesh', 'sri lanka', 'bhutan', 'myanmar', 'afghanistan', 'maldives'] },
+                { id: 'ir.bilateral', name: 'Bilateral Relations', aliases: ['bilateral', 'india us', 'india russia', 'india japan', 'strategic partnership'] },
+                { id: 'ir.groupings', name: 'Regional & Global Groupings', aliases: ['groupings', 'brics', 'saarc', 'asean', 'sco', 'g20', 'quad', 'bimstec', 'g7', 'regional groupings'] },
+                { id: 'ir.organisations', name: 'International Institutions', aliases: ['united nations', 'un', 'international organisations', 'international organizations', 'who', 'unesco', 'security council', 'international institutions'] }
+            ]
+        },
+        {
+            id: 'society', name: 'Indian Society & Social Justice', aliases: ['society', 'social issues', 'social justice', 'sociology'], papers: ['Mains GS-I', 'Mains GS-II'],
+            children: [
+                { id: 'society.diversity', name: 'Diversity, Communalism & Regionalism', aliases: ['diversity', 'communalism', 'regionalism', 'secularism', 'caste', 'tribes'] },
+                { id: 'society.women', name: 'Women & Population Issues', aliases: ['women', 'gender', 'population', 'demography'] },
+                { id: 'society.welfare', name: 'Welfare of Vulnerable Sections', aliases: ['vulnerable sections', 'scheduled castes', 'scheduled tribes', 'minorities', 'disabled', 'elderly', 'children'] },
+                { id: 'society.education-health', name: 'Education & Health Policy', aliases: ['education', 'health policy', 'public health', 'education policy', 'nep'] }
+            ]
+        },
+        {
+            id: 'security', name: 'Internal Security', aliases: ['internal security', 'security'], papers: ['Mains GS-III'],
+            children: [
+                { id: 'security.extremism', name: 'Extremism & Terrorism', aliases: ['terrorism', 'extremism', 'naxalism', 'left wing extremism', 'insurgency'] },
+                { id: 'security.border', name: 'Border Management & Security Forces', aliases: ['border management', 'security forces', 'armed forces', 'capf', 'coastal security'] },
+                { id: 'security.cyber', name: 'Cyber Security & Money Laundering', aliases: ['cyber security', 'money laundering', 'organised crime', 'organized crime'] }
+            ]
+        },
+        {
+            id: 'ethics', name: 'Ethics, Integrity & Aptitude', aliases: ['ethics', 'integrity', 'aptitude', 'moral'], papers: ['Mains GS-IV'],
+            children: [
+                { id: 'ethics.foundations', name: 'Ethics & Human Interface', aliases: ['human values', 'ethics human interface', 'moral thinkers', 'philosophers'] },
+                { id: 'ethics.attitude', name: 'Attitude & Emotional Intelligence', aliases: ['attitude', 'emotional intelligence', 'aptitude civil services'] },
+                { id: 'ethics.public-service', name: 'Probity in Governance', aliases: ['probity', 'public service values', 'corruption', 'code conduct', 'case studies'] }
+            ]
+        },
+        {
+            id: 'current-affairs', name: 'Current Affairs', aliases: ['current affairs', 'current events', 'news', 'in news'], papers: ['Prelims GS'],
+            children: [
+                { id: 'current-affairs.schemes', name: 'Government Schemes', aliases: ['schemes', 'yojana', 'mission', 'programme', 'program'] },
+                { id: 'current-affairs.reports', name: 'Reports & Indices', aliases: ['reports', 'indices', 'index', 'rankings'] },
+                { id: 'current-affairs.events', name: 'Events, Awards & Persons', aliases: ['awards', 'persons news', 'summits', 'sports', 'events'] }
+            ]
+        },
+        {
+            id: 'csat', name: 'CSAT', aliases: ['csat', 'aptitude test', 'paper ii'], papers: ['Prelims CSAT'],
+            children: [
+                { id: 'csat.comprehension', name: 'Reading Comprehension', aliases: ['comprehension', 'reading comprehension', 'passage', 'english comprehension'] },
+                { id: 'csat.reasoning', name: 'Logical & Analytical Reasoning', aliases: ['reasoning', 'logical reasoning', 'analytical ability', 'syllogism', 'puzzles', 'blood relations', 'coding decoding', 'seating arrangement'] },
+                { id: 'csat.quant', name: 'Basic Numeracy', aliases: ['numeracy', 'quantitative aptitude', 'mathematics', 'maths', 'arithmetic', 'percentage', 'ratio', 'profit loss', 'time work', 'number system'] },
+                { id: 'csat.data', name: 'Data Interpretation', aliases: ['data interpretation', 'data sufficiency', 'graphs', 'tables', 'charts'] },
+                { id: 'csat.decision', name: 'Decision Making & Problem Solving', aliases: ['decision making', 'problem solving', 'interpersonal skills', 'communication skills'] }
+            ]
+        }
+    ]
+};
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        try {
-            const text = e.target?.result as string;
-            let data;
-            try {
-                data = JSON.parse(text);
-            } catch (err) {
-                throw new Error("The selected file is not a valid JSON file.");
-            }
+interface SyllabusEntry {
+    node: SyllabusNode;
+    area: SyllabusNode;
+}
 
-            // Case 1: Full Backup (contains 'tests' or 'performanceHistory' arrays)
-            const isBackup = Array.isArray(data.tests) || Array.isArray(data.performanceHistory);
-            
-            // Case 2: Single Test Export (contains 'questions' array and 'name')
-            const isSingleTest = data.name && Array.isArray(data.questions);
+const SYLLABUS_INDEX = new Map<string, SyllabusEntry>();
+UPSC_SYLLABUS.areas.forEach(area => {
+    SYLLABUS_INDEX.set(area.id, { node: area, area });
+    area.children?.forEach(child => SYLLABUS_INDEX.set(child.id, { node: child, area }));
+});
 
-            if (isBackup) {
-                if (confirm("This will merge the uploaded backup data with your current data. Duplicates will be handled automatically where possible. Continue?")) {
-                    const currentTests = getFromStorage<Test[]>('tests', []);
-                    const currentHistory = getFromStorage<TestAttempt[]>('performanceHistory', []);
-                    
-                    const newTests = Array.isArray(data.tests) ? [...data.tests, ...currentTests] : currentTests;
-                    const newHistory = Array.isArray(data.performanceHistory) ? [...data.performanceHistory, ...currentHistory] : currentHistory;
+const SYLLABUS_STOPWORDS = new Set(['and', 'the', 'of', 'in', 'a', 'an', 'to', 'for', 'its', 'with', 'on', 'general', 'studies', 'gs', 'india', 'indian', 'related', 'basics', 'issues', 'topics']);
 
-                    // De-duplicate tests based on ID
-                    const uniqueTests = Array.from(new Map(newTests.map(item => [item.id, item])).values());
-                    
-                    saveToStorage('tests', uniqueTests);
-                    saveToStorage('performanceHistory', newHistory);
+function syllabusTokens(text: string): string[] {
+    return (text || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1 && !SYLLABUS_STOPWORDS.has(token));
+}
 
-                    showToast({ message: 'Data restored successfully!', type: 'success' });
-                    // Reload current view if necessary
-                    if (!allTestsView.classList.contains('hidden')) renderAllTests();
-                    if (!performanceView.classList.contains('hidden')) renderPerformanceHistory();
-                    if (!analyticsView.classList.contains('hidden')) renderAnalyticsDashboard();
-                }
-            } 
-            else if (isSingleTest) {
-                if (confirm(`This file appears to be a single test: "${data.name}". Would you like to import it?`)) {
-                     const newTest: Test = {
-                        ...data,
-                        id: `test_${Date.now()}_restored`, // Ensure unique ID to prevent conflicts
-                        name: `${data.name} (Restored)`
-                    };
+// How well a node's name/aliases match the text: > 1 when a whole phrase is present
+// (longer phrases rank higher), otherwise the best fraction of a phrase covered.
+function syllabusMatchScore(node: SyllabusNode, tokens: string[]): number {
+    if (tokens.length === 0) return 0;
+    const tokenSet = new Set(tokens);
+    let best = 0;
+    [node.name, ...(node.aliases ?? [])].forEach(phrase => {
+        const phraseTokens = syllabusTokens(phrase);
+        if (phraseTokens.length === 0) return;
+        const covered = phraseTokens.filter(token => tokenSet.has(token)).length;
+        const score = covered === phraseTokens.length ? 1 + 0.05 * phraseTokens.length : 0.9 * covered / phraseTokens.length;
+        best = Math.max(best, score);
+    });
+    return best;
+}
 
-                    const tests = getFromStorage<Test[]>('tests', []);
-                    tests.unshift(newTest);
-                    saveToStorage('tests', tests);
+// Maps a free-text subject/topic pair onto the most specific syllabus node it clearly matches
+function classifyToSyllabus(subject: string, topic: string): SyllabusNode | undefined {
+    const subjectTokens = syllabusTokens(subject);
+    const topicTokens = syllabusTokens(topic);
+    let bestChild: SyllabusNode | undefined;
+    let bestChildScore = 0;
+    let bestArea: SyllabusNode | undefined;
+    let bestAreaScore = 0;
+
+    UPSC_SYLLABUS.areas.forEach(area => {
+        const areaScore = syllabusMatchScore(area, subjectTokens);
+        const areaFromTopic = syllabusMatchScore(area, topicTokens);
+        const areaMatch = Math.max(areaScore, areaFromTopic * 0.8);
+        if (areaMatch >= 1 && areaMatch > bestAreaScore) {
+            bestArea = area;
+            bestAreaScore = areaMatch;
+        }
 
-                    showToast({ message: `Test "${data.name}" imported successfully!`, type: 'success' });
-                    if (!allTestsView.classList.contains('hidden')) renderAllTests();
-                }
-            } 
-            else {
-                throw new Error("Invalid file format. Please upload a valid Backup JSON or a single Test JSON.");
+        area.children?.forEach(child => {
+            const topicScore = syllabusMatchScore(child, topicTokens);
+            const subjectScore = syllabusMatchScore(child, subjectTokens);
+            // A topic match must be a whole phrase, unless the subject already points at this area
+            const accepted = topicScore >= 1 || subjectScore >= 1 || (topicScore >= 0.5 && areaScore >= 1);
+            if (!accepted) return;
+            const score = 2 * topicScore + subjectScore + (areaScore >= 1 ? 1 : 0);
+            if (score > bestChildScore) {
+                bestChild = child;
+                bestChildScore = score;
             }
+        });
+    });
 
-        } catch (error) {
-            console.error("Error restoring data:", error);
-            showToast({ message: `Failed to restore data. ${error.message}`, type: 'error' });
-        } finally {
-            input.value = ''; // Reset input
-        }
-    };
-    reader.readAsText(file);
-});
+    return bestChild ?? bestArea;
+}
 
+// The node a question belongs to: a manual override, a tag from the current syllabus version,
+// or a fresh classification (questions tagged against an older version are re-classified).
+function syllabusEntryFor(q: Question): SyllabusEntry | undefined {
+    if (q.syllabusNodeId && (q.syllabusOverride || q.syllabusVersion === UPSC_SYLLABUS.version)) {
+        const tagged = SYLLABUS_INDEX.get(q.syllabusNodeId);
+        if (tagged) return tagged;
+    }
+    const node = classifyToSyllabus(q.subject, q.topic);
+    return node ? SYLLABUS_INDEX.get(node.id) : undefined;
+}
 
-// --- View Management ---
-const views = [mainView, createTestView, editTestView, allTestsView, testDetailView, testAttemptView, performanceView, performanceReportView, analyticsView];
+function tagQuestion(q: Question): Question {
+    if (q.syllabusOverride && q.syllabusNodeId && SYLLABUS_INDEX.has(q.syllabusNodeId)) return q;
+    const node = classifyToSyllabus(q.subject, q.topic);
+    return { ...q, syllabusNodeId: node?.id, syllabusVersion: UPSC_SYLLABUS.version, syllabusOverride: undefined };
+}
 
-function showView(viewToShow) {
-    views.forEach(view => {
-        if (view === viewToShow) {
-            view.classList.remove('hidden');
-        } else {
-            view.classList.add('hidden');
-        }
-    });
-    window.scrollTo(0, 0);
+function syllabusPath(entry: SyllabusEntry): string {
+    return entry.node === entry.area ? entry.area.name : `${entry.area.name} › ${entry.node.name}`;
 }
 
-// --- Event Listeners for navigation ---
-createTestCard.addEventListener('click', () => showView(createTestView));
-allTestsCard.addEventListener('click', () => {
-    renderAllTests();
-    showView(allTestsView);
-});
-performanceCard.addEventListener('click', () => {
-    renderPerformanceHistory();
-    showView(performanceView);
-});
-analyticsCard.addEventListener('click', () => {
-    renderAnalyticsDashboard();
-    showView(analyticsView);
-});
+// Canonical subject/topic names used to bucket analytics; unmatched questions keep their own labels
+function syllabusBuckets(q: Question): { subject: string; topic: string } {
+    const entry = syllabusEntryFor(q);
+    if (!entry) return { subject: q.subject || 'Uncategorized', topic: q.topic || 'General' };
+    return { subject: entry.area.name, topic: entry.node === entry.area ? `${entry.area.name} (General)` : entry.node.name };
+}
 
-backToHomeFromCreateBtn.addEventListener('click', () => showView(mainView));
-backToHomeFromAllTestsBtn.addEventListener('click', () => showView(mainView));
-backToHomeFromPerformanceBtn.addEventListener('click', () => showView(mainView));
-backToHomeFromAnalyticsBtn.addEventListener('click', () => showView(mainView));
-backToCreateBtn.addEventListener('click', () => showView(createTestView));
-backToAllTestsFromDetailBtn.addEventListener('click', () => showView(allTestsView));
+// --- Question Difficulty ---
+const DIFFICULTY_LEVELS: Difficulty[] = ['easy', 'medium', 'hard'];
 
-backToPerformanceListBtn.addEventListener('click', () => {
-    if (reportReturnView === performanceView) renderPerformanceHistory();
-    else if (reportReturnView === allTestsView) renderAllTests();
-    showView(reportReturnView);
-});
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+    easy: 'Easy',
+    medium: 'Medium',
+    hard: 'Hard'
+};
 
-closeModalBtn.addEventListener('click', () => {
-    analyticsModal.classList.add('hidden');
-});
+const isDifficulty = (value: unknown): value is Difficulty => DIFFICULTY_LEVELS.includes(value as Difficulty);
 
-// Close modal when clicking outside
-analyticsModal.addEventListener('click', (e) => {
-    if (e.target === analyticsModal) {
-        analyticsModal.classList.add('hidden');
-    }
-});
+interface DifficultyMix {
+    easy: number;
+    medium: number;
+    hard: number;
+}
 
-// --- Settings Modal Handlers ---
-function updateSettingsInfo() {
-    const tests = getFromStorage<Test[]>('tests', []);
-    const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
-    
-    const totalTestsEl = document.getElementById('total-tests');
-    const totalAttemptsEl = document.getElementById('total-attempts');
-    const storageUsedEl = document.getElementById('storage-used');
-    
-    if (totalTestsEl) totalTestsEl.textContent = tests.length.toString();
-    if (totalAttemptsEl) totalAttemptsEl.textContent = history.length.toString();
-    
-    // Calculate storage
-    const storageStr = JSON.stringify({ tests, performanceHistory: history });
-    const storageSizeKB = (new Blob([storageStr]).size / 1024).toFixed(2);
-    if (storageUsedEl) storageUsedEl.textContent = `${storageSizeKB} KB`;
+const DEFAULT_DIFFICULTY_MIX: DifficultyMix = { easy: 30, medium: 50, hard: 20 };
+
+type DifficultyCounts = Record<Difficulty, number>;
+
+// Turns the percentage mix into exact per-level counts for a request of `count` questions
+function difficultyCounts(count: number, mix: DifficultyMix): DifficultyCounts {
+    const [easy, medium, hard] = allocateProportionally(DIFFICULTY_LEVELS.map(level => mix[level]), count);
+    return { easy, medium, hard };
 }
 
-settingsBtn.addEventListener('click', () => {
-    // Load current settings
-    const savedApiKey = localStorage.getItem('userApiKey') || '';
-    apiKeyInput.value = savedApiKey;
-    
-    // Update stats
-    updateSettingsInfo();
-    
-    settingsModal.classList.remove('hidden');
-});
+// Deals the test-wide counts out over requests of the given sizes, so small requests
+// don't each round their own share of the rarer levels down to zero
+function splitDifficultyCounts(counts: DifficultyCounts, sizes: number[]): DifficultyCounts[] {
+    const remaining = { ...counts };
+    return sizes.map(size => {
+        const [easy, medium, hard] = allocateProportionally(DIFFICULTY_LEVELS.map(level => remaining[level]), size);
+        remaining.easy -= easy;
+        remaining.medium -= medium;
+        remaining.hard -= hard;
+        return { easy, medium, hard };
+    });
+}
 
-closeSettingsBtn.addEventListener('click', () => {
-    settingsModal.classList.add('hidden');
-});
+function difficultyInstructions({ easy, medium, hard }: DifficultyCounts): string {
+    return `Difficulty: make exactly ${easy} easy, ${medium} medium and ${hard} hard question(s), and label each one in "difficulty" with a matching "difficultyScore" (easy 1–3, medium 4–7, hard 8–10). Easy questions test a single fact at NCERT level; medium questions require connecting two facts or concepts; hard questions need fine distinctions across several statements, lesser-known facts, or linking static knowledge with current affairs.`;
+}
 
-settingsModal.addEventListener('click', (e) => {
-    if (e.target === settingsModal) {
-        settingsModal.classList.add('hidden');
-    }
-});
+const toStringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(v => String(v ?? '').trim()).filter(Boolean) : [];
+
+// Untrusted JSON (model output, imports) read field by field
+type RawRecord = Partial<Record<string, unknown>>;
+
+const asRecord = (value: unknown): RawRecord => (value && typeof value === 'object' ? value as RawRecord : {});
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+// Coerces model output or imported JSON into a well-formed Question, downgrading
+// to a plain MCQ when a structured format is missing its parts.
+function normalizeQuestion(value: unknown): Question {
+    const raw = asRecord(value);
+    const options = Array.isArray(raw.options) ? raw.options.map(o => String(o ?? '')) : [];
+    const base: QuestionBase = {
+        question: String(raw.question ?? ''),
+        options,
+        answer: isWholeNumber(raw.answer) && raw.answer >= 0 && raw.answer < options.length ? raw.answer : 0,
+        explanation: String(raw.explanation ?? ''),
+        subject: String(raw.subject ?? ''),
+        topic: String(raw.topic ?? ''),
+        ...(isWholeNumber(raw.sourcePage) ? { sourcePage: raw.sourcePage } : {}),
+        ...(isDifficulty(raw.difficulty) ? { difficulty: raw.difficulty } : {}),
+        ...(Array.isArray(raw.tags) ? { tags: toStringList(raw.tags) } : {}),
+        ...(isFiniteNumber(raw.difficultyScore) ? { difficultyScore: Math.min(10, Math.max(1, Math.round(raw.difficultyScore))) } : {}),
+        ...(typeof raw.syllabusNodeId === 'string' && SYLLABUS_INDEX.has(raw.syllabusNodeId) ? {
+            syllabusNodeId: raw.syllabusNodeId,
+            syllabusVersion: typeof raw.syllabusVersion === 'string' ? raw.syllabusVersion : undefined,
+            syllabusOverride: raw.syllabusOverride === true || undefined
+        } : {}),
+        ...(isFiniteNumber(raw.marks) && raw.marks >= 0 ? { marks: raw.marks } : {}),
+        ...(isFiniteNumber(raw.negativeMarks) && raw.negativeMarks >= 0 ? { negativeMarks: raw.negativeMarks } : {}),
+        ...(raw.scoring === 'bonus' || raw.scoring === 'dropped' ? { scoring: raw.scoring } : {})
+    };
 
-toggleApiKeyBtn.addEventListener('click', () => {
-    const icon = toggleApiKeyBtn.querySelector('.material-symbols-outlined');
-    if (apiKeyInput.type === 'password') {
-        apiKeyInput.type = 'text';
-        icon.textContent = 'visibility_off';
-    } else {
-        apiKeyInput.type = 'password';
-        icon.textContent = 'visibility';
+    switch (raw.type) {
+        case 'assertionReason':
+            if (raw.assertion && raw.reason) {
+                return { ...base, type: 'assertionReason', assertion: String(raw.assertion), reason: String(raw.reason), options: [...ASSERTION_REASON_OPTIONS] };
+            }
+            break;
+        case 'matchFollowing': {
+            const listI = toStringList(raw.listI);
+            const listII = toStringList(raw.listII);
+            if (listI.length > 0 && listII.length > 0) return { ...base, type: 'matchFollowing', listI, listII };
+            break;
+        }
+        case 'statementCount': {
+            const statements = toStringList(raw.statements);
+            if (statements.length > 0) return { ...base, type: 'statementCount', statements };
+            break;
+        }
+        case 'comprehension':
+            if (raw.passage || raw.passageId) {
+                return {
+                    ...base,
+                    type: 'comprehension',
+                    ...(raw.passageId ? { passageId: String(raw.passageId) } : {}),
+                    ...(raw.passage ? { passage: String(raw.passage) } : {})
+                };
+            }
+            break;
     }
-});
+    return { ...base, type: 'mcq' };
+}
 
-saveSettingsBtn.addEventListener('click', () => {
-    const newApiKey = apiKeyInput.value.trim();
-    
-    if (newApiKey) {
-        localStorage.setItem('userApiKey', newApiKey);
-        userApiKey = newApiKey;
-        
-        // Reinitialize AI with new key
+// All supported formats have a single correct option.
+function isAnswerCorrect(q: Question, answer: number | null): boolean {
+    return answer !== null && answer === q.answer;
+}
+
+// --- Comprehension Passages ---
+function passageFor(test: Test | undefined, q: Question): Passage | undefined {
+    if (q.type !== 'comprehension') return undefined;
+    const shared = q.passageId ? test?.passages?.find(p => p.id === q.passageId) : undefined;
+    return shared ?? (q.passage ? { id: '', text: q.passage } : undefined);
+}
+
+function formatPassageText(text: string): string {
+    return text.split(/\n\s*\n/).map(paragraph => `<p>${paragraph.trim()}</p>`).join('');
+}
+
+// e.g. "Questions 4–7" for the questions sharing a passage
+function passageQuestionLabel(test: Test, passageId: string): string {
+    const numbers = test.questions
+        .map((q, index) => (q.type === 'comprehension' && q.passageId === passageId ? index + 1 : 0))
+        .filter(Boolean);
+    if (numbers.length === 0) return '';
+    if (numbers.length === 1) return `Question ${numbers[0]}`;
+    return `Questions ${numbers[0]}–${numbers[numbers.length - 1]}`;
+}
+
+function renderPassageBox(passage: Passage, label = ''): string {
+    return `
+        <div class="passage-box">
+            <h5><span class="material-symbols-outlined">article</span> ${passage.title || 'Passage'}${label ? ` <span class="passage-label">(${label})</span>` : ''}</h5>
+            ${formatPassageText(passage.text)}
+        </div>
+    `;
+}
+
+// Lists of questions show a shared passage once, just before the first question of its group.
+// `shown` tracks the passages already rendered in the current list.
+function renderPassageGroupHeader(test: Test, q: Question, shown: Set<string>): string {
+    if (q.type !== 'comprehension' || !q.passageId || shown.has(q.passageId)) return '';
+    const passage = passageFor(test, q);
+    if (!passage) return '';
+    shown.add(q.passageId);
+    return `<div class="passage-group">${renderPassageBox(passage, passageQuestionLabel(test, q.passageId))}</div>`;
+}
+
+// Moves inline passage text onto test.passages (sharing identical passages), turns comprehension
+// questions that lost their passage into plain MCQs, and drops passages no question references.
+function attachPassages(test: Test): Test {
+    const passages = [...(test.passages ?? [])];
+    const questions = test.questions.map((q): Question => {
+        if (q.type !== 'comprehension') return q;
+        const { passage: inlineText, ...rest } = q;
+        let passageId = rest.passageId && passages.some(p => p.id === rest.passageId) ? rest.passageId : undefined;
+        if (!passageId && inlineText?.trim()) {
+            const text = inlineText.trim();
+            let shared = passages.find(p => p.text.trim() === text);
+            if (!shared) {
+                shared = { id: `passage_${Date.now()}_${passages.length}`, text };
+                passages.push(shared);
+            }
+            passageId = shared.id;
+        }
+        return passageId ? { ...rest, passageId } : convertQuestionType(rest, 'mcq');
+    });
+    const referenced = new Set(questions.map(q => (q.type === 'comprehension' ? q.passageId : null)));
+    return { ...test, questions, passages: passages.filter(p => referenced.has(p.id)) };
+}
+
+// Reorders questions so those sharing a passage sit together, at the position of the first one
+function groupPassageQuestions(questions: Question[]): Question[] {
+    const groupKey = (q: Question, index: number) => (q.type === 'comprehension' && q.passageId ? q.passageId : `#${index}`);
+    const firstPosition = new Map<string, number>();
+    questions.forEach((q, i) => {
+        if (!firstPosition.has(groupKey(q, i))) firstPosition.set(groupKey(q, i), i);
+    });
+    return questions
+        .map((q, i) => ({ q, i, rank: firstPosition.get(groupKey(q, i)) }))
+        .sort((a, b) => a.rank - b.rank || a.i - b.i)
+        .map(entry => entry.q);
+}
+
+// --- Sections ---
+interface SectionRange {
+    section: TestSection;
+    start: number; // First question index
+    end: number; // One past the last question index
+}
+
+// Section counts are reconciled with the question list, so edits that add or remove questions
+// never leave a question outside a section: the last section absorbs any difference.
+function sectionRanges(test: Test): SectionRange[] {
+    const sections = test.sections ?? [];
+    let start = 0;
+    return sections.map((section, i) => {
+        const end = i === sections.length - 1
+            ? test.questions.length
+            : Math.min(test.questions.length, start + Math.max(0, section.questionCount));
+        const range = { section, start, end: Math.max(start, end) };
+        start = range.end;
+        return range;
+    });
+}
+
+function sectionIndexFor(ranges: SectionRange[], questionIndex: number): number {
+    return ranges.findIndex(range => questionIndex >= range.start && questionIndex < range.end);
+}
+
+const isSectionTimed = (test: Test) => (test.sections ?? []).length > 0 && test.sections.every(section => section.duration > 0);
+
+// Keeps section counts in step when questions are removed from a test
+function removeFromSections(test: Test, indexes: number[]): TestSection[] | undefined {
+    if (!test.sections?.length) return test.sections;
+    const ranges = sectionRanges(test);
+    return ranges.map(range => ({
+        ...range.section,
+        questionCount: range.end - range.start - indexes.filter(i => i >= range.start && i < range.end).length
+    }));
+}
+
+// Reorders questions into one section per syllabus subject, in order of first appearance.
+// Questions sharing a passage follow the first one's subject so the group stays together.
+function splitSectionsBySubject(test: Test): Test {
+    const groups = new Map<string, Question[]>();
+    const passageSubjects = new Map<string, string>();
+    test.questions.forEach(q => {
+        let { subject } = syllabusBuckets(q);
+        if (q.type === 'comprehension' && q.passageId) {
+            if (!passageSubjects.has(q.passageId)) passageSubjects.set(q.passageId, subject);
+            subject = passageSubjects.get(q.passageId);
+        }
+        groups.set(subject, [...(groups.get(subject) ?? []), q]);
+    });
+    return {
+        ...test,
+        questions: Array.from(groups.values()).flat(),
+        sections: Array.from(groups.entries()).map(([name, questions]) => ({ id: createId('section'), name, questionCount: questions.length }))
+    };
+}
+
+// --- Marking ---
+interface Marking {
+    marks: number;
+    negative: number;
+}
+
+// A question's own marking overrides its section's, which overrides the test's
+function markingFor(test: Test, index: number, ranges = sectionRanges(test)): Marking {
+    const q = test.questions[index];
+    const section = ranges[sectionIndexFor(ranges, index)]?.section;
+    return {
+        marks: q.marks ?? section?.marksPerQuestion ?? (test.marksPerQuestion || 1),
+        negative: q.negativeMarks ?? section?.negativeMarking ?? (test.negativeMarking || 0)
+    };
+}
+
+const hasMixedMarking = (test: Test) =>
+    test.questions.some(q => q.marks !== undefined || q.negativeMarks !== undefined || q.scoring)
+    || (test.sections ?? []).some(section => section.marksPerQuestion !== undefined || section.negativeMarking !== undefined);
+
+interface QuestionScore {
+    marks: number; // Net marks awarded
+    maxMarks: number; // 0 for dropped questions
+    lostToNegative: number;
+}
+
+function scoreQuestion(test: Test, index: number, answer: number | null, ranges = sectionRanges(test)): QuestionScore {
+    const q = test.questions[index];
+    const { marks, negative } = markingFor(test, index, ranges);
+    if (q.scoring === 'dropped') return { marks: 0, maxMarks: 0, lostToNegative: 0 };
+    if (q.scoring === 'bonus' || isAnswerCorrect(q, answer)) return { marks, maxMarks: marks, lostToNegative: 0 };
+    if (answer === null) return { marks: 0, maxMarks: marks, lostToNegative: 0 };
+    return { marks: -negative, maxMarks: marks, lostToNegative: negative };
+}
+
+interface MarksSummary {
+    rawMarks: number;
+    maxMarks: number;
+    earned: number; // From correct answers, excluding bonus questions
+    bonusMarks: number;
+    lostToNegatives: number;
+    correct: number;
+    incorrect: number;
+    unanswered: number;
+    bonus: number;
+    dropped: number;
+}
+
+// Scores the given question indexes (all by default). Bonus and dropped questions are counted
+// apart from correct/incorrect/unanswered.
+function scoreAnswers(test: Test, answers: (number | null)[], indexes = test.questions.map((_, i) => i)): MarksSummary {
+    const ranges = sectionRanges(test);
+    const summary: MarksSummary = { rawMarks: 0, maxMarks: 0, earned: 0, bonusMarks: 0, lostToNegatives: 0, correct: 0, incorrect: 0, unanswered: 0, bonus: 0, dropped: 0 };
+    indexes.forEach(index => {
+        const q = test.questions[index];
+        const answer = answers[index];
+        const score = scoreQuestion(test, index, answer, ranges);
+        summary.rawMarks += score.marks;
+        summary.maxMarks += score.maxMarks;
+        summary.lostToNegatives += score.lostToNegative;
+        if (q.scoring === 'dropped') summary.dropped++;
+        else if (q.scoring === 'bonus') {
+            summary.bonus++;
+            summary.bonusMarks += score.marks;
+        } else if (answer === null) summary.unanswered++;
+        else if (isAnswerCorrect(q, answer)) {
+            summary.correct++;
+            summary.earned += score.marks;
+        } else summary.incorrect++;
+    });
+    return summary;
+}
+
+const scorePercentage = (summary: MarksSummary) => (summary.maxMarks > 0 ? Math.max(0, (summary.rawMarks / summary.maxMarks) * 100) : 0);
+
+const formatMarking = ({ marks, negative }: Marking) => `+${Number(marks.toFixed(2))} / −${Number(negative.toFixed(2))}`;
+
+// Stored marks, or marks recomputed for attempts saved before raw marks were kept
+function attemptMarks(attempt: TestAttempt): { raw: number; max: number } {
+    if (attempt.rawMarks !== undefined && attempt.maxMarks !== undefined) return { raw: attempt.rawMarks, max: attempt.maxMarks };
+    const marks = scoreAnswers(attempt.fullTest, attempt.userAnswers);
+    return { raw: marks.rawMarks, max: marks.maxMarks };
+}
+
+// --- Cut-offs ---
+type Paper = 'gs' | 'csat';
+
+interface CutoffProfile {
+    id: string;
+    name: string;
+    paper: Paper;
+    cutoffMarks: number; // Out of totalMarks; scaled to the length of each test
+    totalMarks: number;
+    custom?: boolean;
+}
+
+interface CutoffSettings {
+    defaultProfileId: string;
+    customProfiles: CutoffProfile[];
+}
+
+const PAPER_LABELS: Record<Paper, string> = { gs: 'GS Paper I', csat: 'CSAT (Paper II)' };
+
+// UPSC Prelims GS Paper I cut-offs out of 200, as published with the final results
+const BUILT_IN_CUTOFFS: CutoffProfile[] = [
+    { id: 'prelims-2023-general', name: 'Prelims 2023 – General', paper: 'gs', cutoffMarks: 75.41, totalMarks: 200 },
+    { id: 'prelims-2023-ews', name: 'Prelims 2023 – EWS', paper: 'gs', cutoffMarks: 68.02, totalMarks: 200 },
+    { id: 'prelims-2023-obc', name: 'Prelims 2023 – OBC', paper: 'gs', cutoffMarks: 74.75, totalMarks: 200 },
+    { id: 'prelims-2023-sc', name: 'Prelims 2023 – SC', paper: 'gs', cutoffMarks: 59.25, totalMarks: 200 },
+    { id: 'prelims-2023-st', name: 'Prelims 2023 – ST', paper: 'gs', cutoffMarks: 47.82, totalMarks: 200 },
+    { id: 'prelims-2022-general', name: 'Prelims 2022 – General', paper: 'gs', cutoffMarks: 88.22, totalMarks: 200 },
+    { id: 'prelims-2022-ews', name: 'Prelims 2022 – EWS', paper: 'gs', cutoffMarks: 82.83, totalMarks: 200 },
+    { id: 'prelims-2022-obc', name: 'Prelims 2022 – OBC', paper: 'gs', cutoffMarks: 87.54, totalMarks: 200 },
+    { id: 'prelims-2022-sc', name: 'Prelims 2022 – SC', paper: 'gs', cutoffMarks: 74.08, totalMarks: 200 },
+    { id: 'prelims-2022-st', name: 'Prelims 2022 – ST', paper: 'gs', cutoffMarks: 69.35, totalMarks: 200 },
+    { id: 'csat-qualifying', name: 'CSAT – 33% qualifying', paper: 'csat', cutoffMarks: 66, totalMarks: 200 }
+];
+
+const DEFAULT_CUTOFF_SETTINGS: CutoffSettings = { defaultProfileId: 'prelims-2023-general', customProfiles: [] };
+
+const loadCutoffSettings = () => ({ ...DEFAULT_CUTOFF_SETTINGS, ...getFromStorage<Partial<CutoffSettings>>('cutoffSettings', {}) });
+const allCutoffProfiles = (settings = loadCutoffSettings()) => [...BUILT_IN_CUTOFFS, ...settings.customProfiles];
+
+function cutoffProfileFor(test: Test, settings = loadCutoffSettings()): CutoffProfile {
+    const profiles = allCutoffProfiles(settings);
+    return profiles.find(p => p.id === test.cutoffProfileId)
+        ?? profiles.find(p => p.id === settings.defaultProfileId)
+        ?? BUILT_IN_CUTOFFS[0];
+}
+
+interface CutoffResult {
+    profile: CutoffProfile;
+    required: number; // Marks needed on this attempt's max marks
+    distance: number; // Raw marks minus required; negative when short
+    qualified: boolean;
+}
+
+function compareWithCutoff(attempt: TestAttempt, profile = cutoffProfileFor(attempt.fullTest)): CutoffResult {
+    const { raw, max } = attemptMarks(attempt);
+    const required = (profile.cutoffMarks / profile.totalMarks) * max;
+    return { profile, required, distance: raw - required, qualified: raw >= required };
+}
+
+const cutoffPercentage = (profile: CutoffProfile) => (profile.cutoffMarks / profile.totalMarks) * 100;
+
+function renderCutoffOptions(selectedId: string | undefined, includeDefault: boolean, settings = loadCutoffSettings()): string {
+    const groups = (Object.keys(PAPER_LABELS) as Paper[]).map(paper => {
+        const profiles = allCutoffProfiles(settings).filter(p => p.paper === paper);
+        return `
+            <optgroup label="${PAPER_LABELS[paper]}">
+                ${profiles.map(p => `<option value="${p.id}" ${p.id === selectedId ? 'selected' : ''}>${p.name} (${cutoffPercentage(p).toFixed(1)}%)</option>`).join('')}
+            </optgroup>
+        `;
+    }).join('');
+    return `${includeDefault ? `<option value="" ${!selectedId ? 'selected' : ''}>Analytics default</option>` : ''}${groups}`;
+}
+
+// Asks for a custom cut-off, returning its id (or null if cancelled)
+function addCustomCutoff(): string | null {
+    const name = prompt('Name for the custom cut-off (e.g., "My target 2025"):')?.trim();
+    if (!name) return null;
+    const percentage = parseFloat(prompt('Cut-off as a percentage of maximum marks (e.g., 45):') ?? '');
+    if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+        showToast({ message: 'Enter a percentage between 0 and 100.', type: 'warning' });
+        return null;
+    }
+    const paper: Paper = confirm('Is this a CSAT (Paper II) cut-off? Choose Cancel for GS Paper I.') ? 'csat' : 'gs';
+    const settings = loadCutoffSettings();
+    const profile: CutoffProfile = { id: createId('cutoff'), name, paper, cutoffMarks: percentage, totalMarks: 100, custom: true };
+    saveToStorage('cutoffSettings', { ...settings, customProfiles: [...settings.customProfiles, profile] });
+    return profile.id;
+}
+
+// Renders the stem of a question (everything above the options) for its format.
+// Grouped lists pass showPassage = false and render the passage once via renderPassageGroupHeader.
+function renderQuestionStem(q: Question, test?: Test, showPassage = true): string {
+    switch (q.type) {
+        case 'assertionReason':
+            return `
+                ${q.question ? `<p class="question-text">${q.question}</p>` : ''}
+                <div class="assertion-reason-block">
+                    <p><strong>Assertion (A):</strong> ${q.assertion}</p>
+                    <p><strong>Reason (R):</strong> ${q.reason}</p>
+                </div>
+            `;
+        case 'matchFollowing': {
+            const rows = Math.max(q.listI.length, q.listII.length);
+            return `
+                <p class="question-text">${q.question || 'Match List-I with List-II:'}</p>
+                <table class="match-table">
+                    <thead><tr><th>List-I</th><th>List-II</th></tr></thead>
+                    <tbody>
+                        ${Array.from({ length: rows }, (_, i) => `
+                            <tr>
+                                <td>${q.listI[i] ? `<strong>${String.fromCharCode(65 + i)}.</strong> ${q.listI[i]}` : ''}</td>
+                                <td>${q.listII[i] ? `<strong>${i + 1}.</strong> ${q.listII[i]}` : ''}</td>
+                            </tr>
+                        `).join('')}
+                    </tbody>
+                </table>
+            `;
+        }
+        case 'statementCount':
+            return `
+                <div class="question-text statement-question">
+                    <strong>Consider the following statements:</strong>
+                    <ol class="statement-list">${q.statements.map(st => `<li>${st}</li>`).join('')}</ol>
+                    ${q.question}
+                </div>
+            `;
+        case 'comprehension': {
+            // Inline passages (no group) are always part of the stem
+            const passage = showPassage || !q.passageId ? passageFor(test, q) : undefined;
+            return `${passage ? renderPassageBox(passage) : ''}${formatQuestionText(q.question)}`;
+        }
+        default:
+            return formatQuestionText(q.question);
+    }
+}
+
+// Plain-text version of the stem for downloads and AI prompts. The passage is included
+// only when the test is given; grouped downloads print it once per group instead.
+function questionPlainText(q: Question, test?: Test): string {
+    switch (q.type) {
+        case 'assertionReason':
+            return `${q.question ? `${q.question}\n` : ''}Assertion (A): ${q.assertion}\nReason (R): ${q.reason}`;
+        case 'matchFollowing':
+            return `${q.question || 'Match List-I with List-II:'}\nList-I: ${q.listI.map((item, i) => `${String.fromCharCode(65 + i)}. ${item}`).join('; ')}\nList-II: ${q.listII.map((item, i) => `${i + 1}. ${item}`).join('; ')}`;
+        case 'statementCount':
+            return `Consider the following statements:\n${q.statements.map((st, i) => `${i + 1}. ${st}`).join('\n')}\n${q.question}`;
+        case 'comprehension': {
+            const passage = test ? passageFor(test, q) : undefined;
+            return passage ? `Passage: ${passage.text}\n${q.question}` : q.question;
+        }
+        default:
+            return q.question;
+    }
+}
+
+// --- Batch Processing Utilities ---
+interface BatchOptions<R> {
+    concurrency?: number; // Max concurrent requests (default: 2)
+    retries?: number; // Max retry attempts for rate limit errors (default: 5)
+    minTimeout?: number; // Initial retry delay in ms (default: 2000)
+    maxTimeout?: number; // Max retry delay in ms (default: 30000)
+    onProgress?: (completed: number, total: number, index: number) => void;
+    onRetriesExhausted?: (error: unknown, index: number) => R; // Result for an item still rate-limited after every retry; rethrown when unset
+}
+
+// Check if an error is a rate limit or quota violation (worth retrying after a delay).
+function isRateLimitError(error: unknown): boolean {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return (
+        errorMsg.includes("429") ||
+        errorMsg.includes("RATELIMIT_EXCEEDED") ||
+        errorMsg.includes("RESOURCE_EXHAUSTED") ||
+        errorMsg.toLowerCase().includes("quota") ||
+        errorMsg.toLowerCase().includes("rate limit")
+    );
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Process items with limited concurrency, retrying rate-limited calls with exponential backoff.
+// Results are returned in the same order as the input items.
+async function batchProcess<T, R>(
+    items: T[],
+    processor: (item: T, index: number) => Promise<R>,
+    options: BatchOptions<R> = {}
+): Promise<R[]> {
+    const { concurrency = 2, retries = 5, minTimeout = 2000, maxTimeout = 30000, onProgress, onRetriesExhausted } = options;
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    let completed = 0;
+
+    const runWithRetry = async (item: T, index: number): Promise<R> => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await processor(item, index);
+            } catch (error) {
+                if (!isRateLimitError(error)) throw error;
+                if (attempt >= retries) {
+                    if (onRetriesExhausted) return onRetriesExhausted(error, index);
+                    throw error;
+                }
+                await sleep(Math.min(minTimeout * Math.pow(2, attempt), maxTimeout));
+            }
+        }
+    };
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await runWithRetry(items[index], index);
+            completed++;
+            onProgress?.(completed, items.length, index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+    return results;
+}
+
+// --- Local Storage Utilities ---
+function getFromStorage<T>(key: string, defaultValue: T): T {
+    try {
+        const item = localStorage.getItem(key);
+        return item ? JSON.parse(item) : defaultValue;
+    } catch (error) {
+        console.error(`Error reading from localStorage key “${key}”:`, error);
+        return defaultValue;
+    }
+}
+
+// Returns false when the write failed, e.g. because the storage quota is full
+function saveToStorage<T>(key: string, value: T): boolean {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+        return true;
+    } catch (error) {
+        console.error(`Error writing to localStorage key “${key}”:`, error);
+        return false;
+    }
+}
+
+// --- Question Bank Storage ---
+// Questions live once in `questionBank` with a stable id and every saved version; `tests`
+// store ordered question ids plus settings, and `performanceHistory` stores the exact
+// question versions each attempt saw. Passages are immutable in `passageBank`: editing a
+// passage's text saves it under a new id, so past attempts keep the text they were shown.
+// The rest of the app works on hydrated Test/TestAttempt objects via loadTests/saveTests
+// and loadHistory/saveHistory.
+const STORAGE_SCHEMA_VERSION = 2;
+
+interface QuestionVersion {
+    version: number;
+    question: Question; // Stored without id/version/tags
+    savedAt: string;
+}
+
+interface QuestionProvenance {
+    testId: string; // Test the question was first saved in
+    testName: string;
+    document?: TestProvenance;
+}
+
+interface BankQuestion {
+    id: string;
+    currentVersion: number;
+    versions: QuestionVersion[];
+    provenance: QuestionProvenance;
+    tags: string[];
+    createdAt: string;
+}
+
+type QuestionBank = { [id: string]: BankQuestion };
+type PassageBank = { [id: string]: Passage };
+
+type TestSettingsSnapshot = Omit<Test, 'questions' | 'passages'>;
+
+interface StoredTest extends TestSettingsSnapshot {
+    questionIds: string[];
+}
+
+interface QuestionRef {
+    id: string;
+    version: number;
+}
+
+// Attempts with an event log store only the log; timings, visits and answer changes are derived on load
+interface StoredAttempt extends Omit<TestAttempt, 'fullTest' | 'timePerQuestion'> {
+    timePerQuestion?: number[]; // Attempts recorded before the event log
+    questionRefs: QuestionRef[];
+    testSnapshot: TestSettingsSnapshot; // Test settings at the time of the attempt
+}
+
+// What `tests` and `performanceHistory` hold: bank-backed records, or legacy records with embedded
+// questions that stay in place until the migration can be saved
+type TestRecord = StoredTest | Test;
+type AttemptRecord = StoredAttempt | TestAttempt;
+
+const createId = (prefix: string) => `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Key-order independent JSON, so equal questions always compare equal
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => value[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function questionContent(q: Question): Question {
+    const { id, version, tags, ...content } = q;
+    return content as Question;
+}
+
+const sameContent = (a: Question, b: Question) => stableStringify(questionContent(a)) === stableStringify(questionContent(b));
+
+function splitTestSettings(test: Test): TestSettingsSnapshot {
+    const { questions, passages, ...settings } = test;
+    return settings;
+}
+
+// Returns the bank version matching `q`, adding the question or a new version when needed.
+// `makeCurrent` is false for attempt snapshots, which must not replace the live question.
+function upsertBankQuestion(bank: QuestionBank, q: Question, provenance: QuestionProvenance, makeCurrent: boolean): QuestionRef {
+    const now = new Date().toISOString();
+    const entry = q.id ? bank[q.id] : undefined;
+
+    if (!entry) {
+        const id = q.id ?? createId('q');
+        bank[id] = {
+            id,
+            currentVersion: 1,
+            versions: [{ version: 1, question: questionContent(q), savedAt: now }],
+            provenance,
+            tags: q.tags ?? [],
+            createdAt: now
+        };
+        return { id, version: 1 };
+    }
+
+    if (q.tags) entry.tags = q.tags;
+    // An unmodified copy of a known version (e.g. a test loaded before another test saved an
+    // edit of the same question) must not roll the current version back
+    if (q.version && entry.versions.some(v => v.version === q.version && sameContent(v.question, q))) {
+        return { id: entry.id, version: q.version };
+    }
+    const existing = entry.versions.find(v => sameContent(v.question, q));
+    if (existing) {
+        if (makeCurrent) entry.currentVersion = existing.version;
+        return { id: entry.id, version: existing.version };
+    }
+
+    const version = Math.max(...entry.versions.map(v => v.version)) + 1;
+    entry.versions.push({ version, question: questionContent(q), savedAt: now });
+    if (makeCurrent) entry.currentVersion = version;
+    return { id: entry.id, version };
+}
+
+function hydrateQuestion(bank: QuestionBank, ref: QuestionRef): Question | undefined {
+    const entry = bank[ref.id];
+    const snapshot = entry?.versions.find(v => v.version === ref.version);
+    if (!snapshot) return undefined;
+    return { ...snapshot.question, id: entry.id, version: snapshot.version, tags: entry.tags };
+}
+
+function currentRef(bank: QuestionBank, id: string): QuestionRef | undefined {
+    return bank[id] ? { id, version: bank[id].currentVersion } : undefined;
+}
+
+function passagesForQuestions(passageBank: PassageBank, questions: Question[]): Passage[] {
+    const ids = new Set(questions.map(q => (q.type === 'comprehension' ? q.passageId : undefined)).filter(Boolean));
+    return Array.from(ids).map(id => passageBank[id]).filter(Boolean);
+}
+
+// Stores the test's passages, giving edited passages a new id (and repointing its questions)
+function storePassages(passageBank: PassageBank, test: Test): Question[] {
+    const renamed = new Map<string, string>();
+    (test.passages ?? []).forEach(passage => {
+        const stored = passageBank[passage.id];
+        if (stored && (stored.text !== passage.text || (stored.title ?? '') !== (passage.title ?? ''))) {
+            const id = createId('passage');
+            renamed.set(passage.id, id);
+            passageBank[id] = { ...passage, id };
+        } else if (!stored) {
+            passageBank[passage.id] = { ...passage };
+        }
+    });
+    if (renamed.size === 0) return test.questions;
+    test.passages = test.passages.map(p => (renamed.has(p.id) ? { ...p, id: renamed.get(p.id) } : p));
+    return test.questions.map(q =>
+        q.type === 'comprehension' && renamed.has(q.passageId) ? { ...q, passageId: renamed.get(q.passageId) } : q
+    );
+}
+
+function loadTests(): Test[] {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+    return getFromStorage<TestRecord[]>('tests', []).map(record => {
+        // Still in the pre-bank format because the migration could not be saved
+        if (!('questionIds' in record)) return record;
+        const { questionIds, ...settings } = record;
+        const questions = questionIds
+            .map(id => currentRef(bank, id))
+            .filter(Boolean)
+            .map(ref => hydrateQuestion(bank, ref));
+        return { ...settings, questions, passages: passagesForQuestions(passageBank, questions) };
+    });
+}
+
+// Writes the banks, then the records that reference them. Records are only written once both
+// banks are stored, and if one record fails the ones written before it are rolled back, so
+// stored tests and attempts never point at questions that were not saved.
+function writeWithBanks(bank: QuestionBank, passageBank: PassageBank, records: { [key: string]: unknown }): boolean {
+    if (!saveToStorage('questionBank', bank) || !saveToStorage('passageBank', passageBank)) return false;
+    const written: [string, string | null][] = [];
+    for (const [key, value] of Object.entries(records)) {
+        const previous = localStorage.getItem(key);
+        if (!saveToStorage(key, value)) {
+            written.forEach(([writtenKey, before]) => {
+                try {
+                    if (before === null) localStorage.removeItem(writtenKey);
+                    else localStorage.setItem(writtenKey, before);
+                } catch (error) {
+                    console.error(`Error restoring localStorage key “${writtenKey}”:`, error);
+                }
+            });
+            return false;
+        }
+        written.push([key, previous]);
+    }
+    return true;
+}
+
+const showStorageFullToast = () =>
+    showToast({ message: 'Browser storage is full, so your changes could not be saved. Export a backup and clear old results or tests, then try again.', type: 'error', duration: 8000 });
+
+// Adds the tests' questions and passages to the banks and returns the tests in stored form.
+// Questions are written back to `tests` with their bank id and version.
+function storeTests(bank: QuestionBank, passageBank: PassageBank, tests: Test[]): StoredTest[] {
+    return tests.map(test => {
+        test.questions = storePassages(passageBank, test);
+        const provenance: QuestionProvenance = { testId: test.id, testName: test.name, ...(test.provenance ? { document: test.provenance } : {}) };
+        test.questions = test.questions.map(q => {
+            const ref = upsertBankQuestion(bank, q, provenance, true);
+            return { ...q, id: ref.id, version: ref.version, tags: bank[ref.id].tags };
+        });
+        return { ...splitTestSettings(test), questionIds: test.questions.map(q => q.id) };
+    });
+}
+
+// Saves the full list of tests. Returns false, leaving the stored tests as they were, if storage is full.
+function saveTests(tests: Test[]): boolean {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+    const saved = writeWithBanks(bank, passageBank, { tests: storeTests(bank, passageBank, tests) });
+    if (!saved) showStorageFullToast();
+    return saved;
+}
+
+function loadHistory(): TestAttempt[] {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+    return getFromStorage<AttemptRecord[]>('performanceHistory', [])
+        .filter(record => !('testSnapshot' in record && record.testSnapshot.reviewSession)) // Saved before review sessions were kept out of history
+        .map(record => {
+            // Still in the pre-bank format because the migration could not be saved
+            if (!('questionRefs' in record)) return record;
+            const { questionRefs, testSnapshot, ...attempt } = record;
+            const questions = questionRefs.map(ref => hydrateQuestion(bank, ref)).filter(Boolean);
+            const metrics = attempt.events
+                ? metricsFromEvents(attempt.events, questions.length)
+                : { timePerQuestion: attempt.timePerQuestion, visits: attempt.visits, answerChanges: attempt.answerChanges };
+            return {
+                ...attempt,
+                timePerQuestion: metrics.timePerQuestion,
+                visits: metrics.visits,
+                answerChanges: metrics.answerChanges,
+                fullTest: { ...testSnapshot, questions, passages: passagesForQuestions(passageBank, questions) }
+            };
+        });
+}
+
+function storeHistory(bank: QuestionBank, passageBank: PassageBank, history: TestAttempt[]): StoredAttempt[] {
+    return history.map(({ fullTest, timePerQuestion, visits, answerChanges, ...attempt }) => {
+        const test = { ...fullTest, questions: storePassages(passageBank, { ...fullTest }) };
+        const provenance: QuestionProvenance = { testId: test.id, testName: test.name, ...(test.provenance ? { document: test.provenance } : {}) };
+        return {
+            ...attempt,
+            ...(attempt.events ? {} : { timePerQuestion, visits, answerChanges }),
+            questionRefs: test.questions.map(q => upsertBankQuestion(bank, q, provenance, false)),
+            testSnapshot: splitTestSettings(test)
+        };
+    });
+}
+
+// Saves the full history. Returns false, leaving the stored history as it was, if storage is full.
+function saveHistory(history: TestAttempt[]): boolean {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+    const saved = writeWithBanks(bank, passageBank, { performanceHistory: storeHistory(bank, passageBank, history) });
+    if (!saved) showStorageFullToast();
+    return saved;
+}
+
+// Applies `update` to the stored copy of an attempt (matched on completedAt + testName)
+function updateStoredAttempt(attempt: TestAttempt, update: (stored: TestAttempt) => void) {
+    const history = loadHistory();
+    const stored = history.find(h => h.completedAt === attempt.completedAt && h.testName === attempt.testName);
+    if (!stored) return;
+    update(stored);
+    saveHistory(history);
+}
+
+// Removes bank questions (and passages) that no test, attempt or review card references any more
+function pruneQuestionBank() {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+    const used = new Set<string>();
+    getFromStorage<TestRecord[]>('tests', []).forEach(t => {
+        if ('questionIds' in t) t.questionIds.forEach(id => used.add(id));
+    });
+    getFromStorage<AttemptRecord[]>('performanceHistory', []).forEach(a => {
+        if ('questionRefs' in a) a.questionRefs.forEach(ref => used.add(ref.id));
+    });
+    Object.keys(getFromStorage<ReviewSchedule>('reviewSchedule', {})).forEach(id => used.add(id));
+
+    const usedPassages = new Set<string>();
+    Object.keys(bank).forEach(id => {
+        if (!used.has(id)) {
+            delete bank[id];
+            return;
+        }
+        bank[id].versions.forEach(v => {
+            if (v.question.type === 'comprehension' && v.question.passageId) usedPassages.add(v.question.passageId);
+        });
+    });
+    Object.keys(passageBank).forEach(id => {
+        if (!usedPassages.has(id)) delete passageBank[id];
+    });
+
+    saveToStorage('questionBank', bank);
+    saveToStorage('passageBank', passageBank);
+}
+
+// Attempts saved before the bank existed carry questions without ids. Each is linked to the
+// question of its test with the same content, so the attempt and the test share one bank entry.
+// Questions edited since the attempt match nothing and are banked on their own.
+function linkLegacyAttempts(history: TestAttempt[], storedTests: StoredTest[], bank: QuestionBank): TestAttempt[] {
+    const testQuestions = new Map(storedTests.map(t => {
+        const byContent = new Map<string, string>();
+        t.questionIds.forEach(id => bank[id]?.versions.forEach(v => byContent.set(stableStringify(v.question), id)));
+        return [t.id, byContent];
+    }));
+    return history.map(attempt => {
+        const byContent = testQuestions.get(attempt.testId);
+        return {
+            ...attempt,
+            fullTest: {
+                ...attempt.fullTest,
+                questions: attempt.fullTest.questions.map(q => {
+                    const id = !q.id && byContent?.get(stableStringify(questionContent(q)));
+                    return id ? { ...q, id } : q;
+                })
+            }
+        };
+    });
+}
+
+// Converts pre-bank data (tests with embedded questions, attempts with a full test copy).
+// The records and the schema version are written together, so a full storage leaves the legacy
+// data in place for the next page load to try again.
+function migrateLegacyData(legacyTests: Test[], legacyHistory: TestAttempt[]): boolean {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+    const storedTests = storeTests(bank, passageBank, legacyTests);
+    const storedHistory = storeHistory(bank, passageBank, linkLegacyAttempts(legacyHistory, storedTests, bank));
+    return writeWithBanks(bank, passageBank, { tests: storedTests, performanceHistory: storedHistory, storageSchemaVersion: STORAGE_SCHEMA_VERSION });
+}
+
+// Adds questions and versions from a backup; on conflicts the local copy wins
+function mergeQuestionBank(incoming: QuestionBank, incomingPassages: PassageBank) {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+    Object.values(incoming ?? {}).forEach(entry => {
+        const local = bank[entry.id];
+        if (!local) {
+            bank[entry.id] = entry;
+            return;
+        }
+        entry.versions.forEach(v => {
+            if (!local.versions.some(lv => lv.version === v.version)) local.versions.push(v);
+        });
+    });
+    Object.values(incomingPassages ?? {}).forEach(passage => {
+        if (!passageBank[passage.id]) passageBank[passage.id] = passage;
+    });
+    saveToStorage('questionBank', bank);
+    saveToStorage('passageBank', passageBank);
+}
+
+function migrateStorage() {
+    if (getFromStorage<number>('storageSchemaVersion', 1) >= STORAGE_SCHEMA_VERSION) return;
+    if (!migrateLegacyData(getFromStorage<Test[]>('tests', []), getFromStorage<TestAttempt[]>('performanceHistory', []))) {
+        console.error('Storage migration could not be saved; legacy data left in place.');
+    }
+}
+
+migrateStorage();
+
+// --- Spaced Repetition Review ---
+// SM-2 scheduling: every question answered wrong (or answered while still marked for review,
+// i.e. guessed) is enrolled; later answers to it, in review sessions or regular tests, move its due date.
+interface ReviewLogEntry {
+    reviewedAt: string;
+    quality: number; // SM-2 grade, 0-5
+    correct: boolean;
+    elapsedDays: number; // Since the previous exposure to the question
+}
+
+interface ReviewCard {
+    questionId: string;
+    easiness: number;
+    interval: number; // in days
+    repetitions: number;
+    lapses: number;
+    dueAt: string;
+    enrolledAt: string;
+    lastSeenAt: string;
+    log: ReviewLogEntry[];
+}
+
+type ReviewSchedule = Record<string, ReviewCard>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REVIEW_SESSION_LIMIT = 30;
+const REVIEW_SECONDS_PER_QUESTION = 90;
+const MATURE_INTERVAL_DAYS = 21;
+
+type ReviewOutcome = 'correct' | 'guessed' | 'wrong' | 'skipped';
+
+const REVIEW_QUALITY: Record<ReviewOutcome, number> = {
+    correct: 4,
+    guessed: 3,
+    wrong: 1,
+    skipped: 0
+};
+
+function scheduleReview(card: ReviewCard, quality: number, now: Date) {
+    if (quality < 3) {
+        card.repetitions = 0;
+        card.interval = 1;
+        card.lapses++;
+    } else {
+        card.repetitions++;
+        card.interval = card.repetitions === 1 ? 1 : card.repetitions === 2 ? 6 : Math.round(card.interval * card.easiness);
+    }
+    card.easiness = Math.max(1.3, card.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    card.dueAt = new Date(now.getTime() + card.interval * DAY_MS).toISOString();
+}
+
+// Updates the schedule from a finished attempt. `guessed` holds the indexes answered with low confidence.
+// Outside review sessions a skipped question says nothing about recall, so its card is left as it was.
+function recordReviewOutcomes(attempt: TestAttempt, guessed: Set<number>) {
+    const schedule = getFromStorage<ReviewSchedule>('reviewSchedule', {});
+    const now = new Date(attempt.completedAt);
+
+    attempt.fullTest.questions.forEach((q, i) => {
+        if (!q.id) return;
+        const answer = attempt.userAnswers[i];
+        if (answer === null && !attempt.fullTest.reviewSession) return;
+        const outcome: ReviewOutcome = answer === null
+            ? 'skipped'
+            : !isAnswerCorrect(q, answer) ? 'wrong' : guessed.has(i) ? 'guessed' : 'correct';
+        const card = schedule[q.id];
+
+        if (card) {
+            card.log.push({
+                reviewedAt: now.toISOString(),
+                quality: REVIEW_QUALITY[outcome],
+                correct: outcome === 'correct' || outcome === 'guessed',
+                elapsedDays: Math.max(0, Math.round((now.getTime() - new Date(card.lastSeenAt).getTime()) / DAY_MS))
+            });
+            card.lastSeenAt = now.toISOString();
+            scheduleReview(card, REVIEW_QUALITY[outcome], now);
+        } else if (outcome === 'wrong' || outcome === 'guessed') {
+            schedule[q.id] = {
+                questionId: q.id,
+                easiness: 2.5,
+                interval: 1,
+                repetitions: 0,
+                lapses: 0,
+                dueAt: new Date(now.getTime() + DAY_MS).toISOString(),
+                enrolledAt: now.toISOString(),
+                lastSeenAt: now.toISOString(),
+                log: []
+            };
+        }
+    });
+
+    saveToStorage('reviewSchedule', schedule);
+}
+
+// Cards due by the end of today whose question is still in the bank, most overdue first
+function dueReviewCards(): ReviewCard[] {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+    return Object.values(getFromStorage<ReviewSchedule>('reviewSchedule', {}))
+        .filter(card => bank[card.questionId] && new Date(card.dueAt) <= endOfToday)
+        .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
+
+function updateReviewDueCard() {
+    const due = dueReviewCards().length;
+    const enrolled = Object.keys(getFromStorage<ReviewSchedule>('reviewSchedule', {})).length;
+    reviewDueBadge.textContent = due.toString();
+    reviewDueBadge.classList.toggle('hidden', due === 0);
+    reviewDueSummary.textContent = due > 0
+        ? `${due} question(s) due today. Revise them before they slip away.`
+        : enrolled > 0
+            ? `All caught up! ${enrolled} question(s) are scheduled for later.`
+            : 'Questions you get wrong or guess are scheduled here for spaced revision.';
+}
+
+function startReviewSession() {
+    const cards = dueReviewCards().slice(0, REVIEW_SESSION_LIMIT);
+    if (cards.length === 0) {
+        showToast({ message: 'Nothing is due for review today.', type: 'info' });
+        return;
+    }
+
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const questions = groupPassageQuestions(cards.map(card => hydrateQuestion(bank, currentRef(bank, card.questionId))));
+    const now = new Date();
+    startTest(attachPassages({
+        id: `review_${now.getTime()}`,
+        name: `Review Session – ${now.toLocaleDateString()}`,
+        questions,
+        duration: Math.ceil((questions.length * REVIEW_SECONDS_PER_QUESTION) / 60),
+        language: 'English',
+        createdAt: now.toISOString(),
+        marksPerQuestion: 1,
+        negativeMarking: 0,
+        passages: passagesForQuestions(getFromStorage<PassageBank>('passageBank', {}), questions),
+        reviewSession: true
+    }));
+}
+
+updateReviewDueCard();
+
+// --- Data Restore Logic ---
+restoreFileInput.addEventListener('change', (event) => {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+        try {
+            const text = e.target?.result as string;
+            let data;
+            try {
+                data = JSON.parse(text);
+            } catch (err) {
+                throw new Error("The selected file is not a valid JSON file.");
+            }
+
+            // Case 1: Full Backup (contains 'tests' or 'performanceHistory' arrays)
+            const isBackup = Array.isArray(data.tests) || Array.isArray(data.performanceHistory);
+            
+            // Case 2: Single Test Export (contains 'questions' array and 'name')
+            const isSingleTest = data.name && Array.isArray(data.questions);
+
+            if (isBackup) {
+                if (confirm("This will merge the uploaded backup data with your current data. Duplicates will be handled automatically where possible. Continue?")) {
+                    // Backups from before the question bank have no bank; their questions get added as new
+                    if (data.questionBank) mergeQuestionBank(data.questionBank, data.passageBank);
+                    if (data.reviewSchedule) {
+                        saveToStorage('reviewSchedule', { ...data.reviewSchedule, ...getFromStorage<ReviewSchedule>('reviewSchedule', {}) });
+                    }
+                    if (Array.isArray(data.notebook)) {
+                        const notebook = getFromStorage<NotebookEntry[]>('notebook', []);
+                        const known = new Set(notebook.map(entry => entry.id));
+                        saveToStorage('notebook', [...notebook, ...data.notebook.filter(entry => !known.has(entry.id))]);
+                    }
+                    const currentTests = loadTests();
+                    const currentHistory = loadHistory();
+                    
+                    const newTests = Array.isArray(data.tests) ? [...data.tests, ...currentTests] : currentTests;
+                    const newHistory = Array.isArray(data.performanceHistory) ? [...data.performanceHistory, ...currentHistory] : currentHistory;
+
+                    // De-duplicate tests based on ID
+                    const uniqueTests = Array.from(new Map(newTests.map(item => [item.id, item])).values());
+                    
+                    // Tests and history go in one write, so legacy attempts link to the restored tests' questions
+                    const bank = getFromStorage<QuestionBank>('questionBank', {});
+                    const passageBank = getFromStorage<PassageBank>('passageBank', {});
+                    const storedTests = storeTests(bank, passageBank, uniqueTests);
+                    const storedHistory = storeHistory(bank, passageBank, linkLegacyAttempts(newHistory, storedTests, bank));
+                    if (writeWithBanks(bank, passageBank, { tests: storedTests, performanceHistory: storedHistory })) {
+                        showToast({ message: 'Data restored successfully!', type: 'success' });
+                    } else {
+                        showStorageFullToast();
+                    }
+                    // Reload current view if necessary
+                    if (!allTestsView.classList.contains('hidden')) renderAllTests();
+                    if (!performanceView.classList.contains('hidden')) renderPerformanceHistory();
+                    if (!analyticsView.classList.contains('hidden')) renderAnalyticsDashboard();
+                }
+            } 
+            else if (isSingleTest) {
+                if (confirm(`This file appears to be a single test: "${data.name}". Would you like to import it?`)) {
+                     const newTest: Test = attachPassages({
+                        ...data,
+                        questions: data.questions.map(normalizeQuestion).map(tagQuestion),
+                        id: `test_${Date.now()}_restored`, // Ensure unique ID to prevent conflicts
+                        name: `${data.name} (Restored)`
+                    });
+
+                    const tests = loadTests();
+                    tests.unshift(newTest);
+                    saveTests(tests);
+
+                    showToast({ message: `Test "${data.name}" imported successfully!`, type: 'success' });
+                    if (!allTestsView.classList.contains('hidden')) renderAllTests();
+                    reviewDuplicatesInSavedTest(newTest);
+                }
+            } 
+            else {
+                throw new Error("Invalid file format. Please upload a valid Backup JSON or a single Test JSON.");
+            }
+
+        } catch (error) {
+            console.error("Error restoring data:", error);
+            showToast({ message: `Failed to restore data. ${error.message}`, type: 'error' });
+        } finally {
+            input.value = ''; // Reset input
+        }
+    };
+    reader.readAsText(file);
+});
+
+
+// --- View Management ---
+const views = [mainView, createTestView, editTestView, allTestsView, testDetailView, testAttemptView, performanceView, performanceReportView, analyticsView, notebookView];
+
+function showView(viewToShow) {
+    if (viewToShow === mainView) {
+        updateReviewDueCard();
+        renderResumeList();
+    }
+    if (viewToShow !== performanceReportView) stopReplay(); // Don't keep playing an attempt replay nobody can see
+    views.forEach(view => {
+        if (view === viewToShow) {
+            view.classList.remove('hidden');
+        } else {
+            view.classList.add('hidden');
+        }
+    });
+    window.scrollTo(0, 0);
+}
+
+// --- Event Listeners for navigation ---
+createTestCard.addEventListener('click', () => {
+    if (activeTabInput.type === 'bank') renderBankFilters();
+    showView(createTestView);
+});
+allTestsCard.addEventListener('click', () => {
+    renderAllTests();
+    showView(allTestsView);
+});
+performanceCard.addEventListener('click', () => {
+    renderPerformanceHistory();
+    showView(performanceView);
+});
+analyticsCard.addEventListener('click', () => {
+    renderAnalyticsDashboard();
+    showView(analyticsView);
+});
+reviewDueCard.addEventListener('click', startReviewSession);
+notebookCard.addEventListener('click', () => {
+    renderNotebook();
+    showView(notebookView);
+});
+
+backToHomeFromCreateBtn.addEventListener('click', () => showView(mainView));
+backToHomeFromAllTestsBtn.addEventListener('click', () => showView(mainView));
+backToHomeFromPerformanceBtn.addEventListener('click', () => showView(mainView));
+backToHomeFromAnalyticsBtn.addEventListener('click', () => showView(mainView));
+backToHomeFromNotebookBtn.addEventListener('click', () => showView(mainView));
+backToCreateBtn.addEventListener('click', () => showView(createTestView));
+backToAllTestsFromDetailBtn.addEventListener('click', () => showView(allTestsView));
+
+backToPerformanceListBtn.addEventListener('click', () => {
+    if (reportReturnView === performanceView) renderPerformanceHistory();
+    else if (reportReturnView === allTestsView) renderAllTests();
+    showView(reportReturnView);
+});
+
+closeModalBtn.addEventListener('click', () => {
+    analyticsModal.classList.add('hidden');
+});
+
+// Close modal when clicking outside
+analyticsModal.addEventListener('click', (e) => {
+    if (e.target === analyticsModal) {
+        analyticsModal.classList.add('hidden');
+    }
+});
+
+// --- Settings Modal Handlers ---
+function updateSettingsInfo() {
+    const tests = loadTests();
+    const history = loadHistory();
+    
+    const totalTestsEl = document.getElementById('total-tests');
+    const totalAttemptsEl = document.getElementById('total-attempts');
+    const storageUsedEl = document.getElementById('storage-used');
+    
+    if (totalTestsEl) totalTestsEl.textContent = tests.length.toString();
+    if (totalAttemptsEl) totalAttemptsEl.textContent = history.length.toString();
+    
+    const totalQuestionsEl = document.getElementById('total-bank-questions');
+    if (totalQuestionsEl) totalQuestionsEl.textContent = Object.keys(getFromStorage<QuestionBank>('questionBank', {})).length.toString();
+    
+    // Calculate storage
+    const storageStr = ['tests', 'performanceHistory', 'questionBank', 'passageBank'].map(key => localStorage.getItem(key) ?? '').join('');
+    const storageSizeKB = (new Blob([storageStr]).size / 1024).toFixed(2);
+    if (storageUsedEl) storageUsedEl.textContent = `${storageSizeKB} KB`;
+}
+
+settingsBtn.addEventListener('click', () => {
+    // Load current settings
+    const savedApiKey = localStorage.getItem('userApiKey') || '';
+    apiKeyInput.value = savedApiKey;
+    
+    // Update stats
+    updateSettingsInfo();
+    
+    settingsModal.classList.remove('hidden');
+});
+
+closeSettingsBtn.addEventListener('click', () => {
+    settingsModal.classList.add('hidden');
+});
+
+settingsModal.addEventListener('click', (e) => {
+    if (e.target === settingsModal) {
+        settingsModal.classList.add('hidden');
+    }
+});
+
+toggleApiKeyBtn.addEventListener('click', () => {
+    const icon = toggleApiKeyBtn.querySelector('.material-symbols-outlined');
+    if (apiKeyInput.type === 'password') {
+        apiKeyInput.type = 'text';
+        icon.textContent = 'visibility_off';
+    } else {
+        apiKeyInput.type = 'password';
+        icon.textContent = 'visibility';
+    }
+});
+
+saveSettingsBtn.addEventListener('click', () => {
+    const newApiKey = apiKeyInput.value.trim();
+    
+    if (newApiKey) {
+        localStorage.setItem('userApiKey', newApiKey);
+        userApiKey = newApiKey;
+        
+        // Reinitialize AI with new key
         try {
             ai = new GoogleGenAI({ apiKey: userApiKey });
             showToast({ message: 'Settings saved! AI is now configured.', type: 'success' });
@@ -707,15 +2364,21 @@ saveSettingsBtn.addEventListener('click', () => {
 });
 
 exportDataBtn.addEventListener('click', () => {
-    const tests = getFromStorage<Test[]>('tests', []);
-    const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+    const tests = loadTests();
+    const history = loadHistory();
     const users = getUsers();
     
+    // Tests and history are exported hydrated so the file stays readable on its own;
+    // the bank adds question versions, tags and provenance
     const backupData = {
         version: '2.1.0',
         exportDate: new Date().toISOString(),
         tests,
         performanceHistory: history,
+        questionBank: getFromStorage<QuestionBank>('questionBank', {}),
+        passageBank: getFromStorage<PassageBank>('passageBank', {}),
+        reviewSchedule: getFromStorage<ReviewSchedule>('reviewSchedule', {}),
+        notebook: getFromStorage<NotebookEntry[]>('notebook', []),
         users
     };
     
@@ -744,6 +2407,15 @@ clearDataBtn.addEventListener('click', () => {
         if (confirm('Final confirmation: Delete everything?')) {
             localStorage.removeItem('tests');
             localStorage.removeItem('performanceHistory');
+            localStorage.removeItem('questionBank');
+            localStorage.removeItem('passageBank');
+            localStorage.removeItem('reviewSchedule');
+            localStorage.removeItem('notebook');
+            localStorage.removeItem('activeAttempts');
+            localStorage.removeItem('answerKeyRevisions');
+            localStorage.removeItem('cutoffSettings');
+            localStorage.removeItem('ocrCache');
+            renderResumeList();
             
             showToast({ message: 'All data has been cleared.', type: 'success' });
             settingsModal.classList.add('hidden');
@@ -758,7 +2430,7 @@ clearDataBtn.addEventListener('click', () => {
 
 // Clear Results Only
 clearResultsBtn?.addEventListener('click', () => {
-    const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+    const history = loadHistory();
     if (history.length === 0) {
         showToast({ message: 'No results to clear.', type: 'info' });
         return;
@@ -766,6 +2438,7 @@ clearResultsBtn?.addEventListener('click', () => {
     
     if (confirm(`⚠️ This will delete all ${history.length} test result(s) from your history.\n\nYour saved tests will NOT be affected.\n\nContinue?`)) {
         localStorage.removeItem('performanceHistory');
+        pruneQuestionBank(); // Keep only the questions saved tests still reference
         showToast({ message: `${history.length} result(s) cleared successfully.`, type: 'success' });
         
         // Refresh views
@@ -777,7 +2450,7 @@ clearResultsBtn?.addEventListener('click', () => {
 
 // Clear Tests Only
 clearTestsBtn?.addEventListener('click', () => {
-    const tests = getFromStorage<Test[]>('tests', []);
+    const tests = loadTests();
     if (tests.length === 0) {
         showToast({ message: 'No tests to clear.', type: 'info' });
         return;
@@ -785,6 +2458,7 @@ clearTestsBtn?.addEventListener('click', () => {
     
     if (confirm(`⚠️ This will delete all ${tests.length} saved test(s).\n\nYour result history will NOT be affected.\n\nContinue?`)) {
         localStorage.removeItem('tests');
+        pruneQuestionBank(); // Keep only the questions past results still reference
         showToast({ message: `${tests.length} test(s) cleared successfully.`, type: 'success' });
         
         // Refresh views
@@ -807,12 +2481,16 @@ document.addEventListener('click', async (e) => {
         if (target.closest('#submit-test-btn')) {
             e.preventDefault();
             handleSubmitTest();
+        } else if (target.closest('#check-answer-btn')) {
+            checkCurrentAnswer();
         } else if (target.closest('#back-to-all-tests')) {
             e.preventDefault();
             const timerWasRunning = timerInterval !== null;
             if (timerWasRunning) stopTimer();
             if (confirm("Are you sure you want to abandon this test? Your progress will be lost.")) {
+                discardAttemptCheckpoint();
                 currentTest = null;
+                endStrictMode();
                 showView(allTestsView);
             } else {
                 if (timerWasRunning) startTimer();
@@ -822,15 +2500,28 @@ document.addEventListener('click', async (e) => {
     }
     
     // Deeper Analysis Button in Performance Report
-    if (target.matches('.deeper-analysis-btn')) {
-        await handleDeeperAnalysis(target);
+    const deeperAnalysisBtn = target.closest('.deeper-analysis-btn') as HTMLElement;
+    if (deeperAnalysisBtn) {
+        await handleDeeperAnalysis(deeperAnalysisBtn);
+    }
+
+    const notebookBtn = target.closest('.notebook-btn') as HTMLElement;
+    if (notebookBtn && currentAttemptForReport) {
+        openNotebookModalForQuestion(currentAttemptForReport, parseInt(notebookBtn.dataset.questionIndex, 10));
+    }
+
+    const reviseKeyBtn = target.closest('.revise-key-btn') as HTMLElement;
+    if (reviseKeyBtn) {
+        const index = parseInt(reviseKeyBtn.dataset.questionIndex, 10);
+        const test = !testDetailView.classList.contains('hidden') ? currentTest : currentAttemptForReport?.fullTest;
+        if (test?.questions[index]) openAnswerKeyModal(test.questions[index]);
     }
 });
 
 
 // --- KEYBOARD SHORTCUTS FOR TEST ATTEMPT ---
 document.addEventListener('keydown', (e) => {
-    if (testAttemptView.classList.contains('hidden')) {
+    if (testAttemptView.classList.contains('hidden') || attemptPaused || !strictOverlay.classList.contains('hidden')) {
         return;
     }
 
@@ -838,6 +2529,10 @@ document.addEventListener('keydown', (e) => {
     if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
         return;
     }
+    // Leave browser shortcuts such as Ctrl+F and Ctrl+S alone
+    if (e.ctrlKey || e.metaKey || e.altKey) {
+        return;
+    }
 
     switch (e.key) {
         case '1':
@@ -847,11 +2542,30 @@ document.addEventListener('keydown', (e) => {
             e.preventDefault();
             const optionIndex = parseInt(e.key, 10) - 1;
             const radioButtons = document.querySelectorAll('.attempt-option-item input[type="radio"]') as NodeListOf<HTMLInputElement>;
-            if (radioButtons[optionIndex]) {
+            if (radioButtons[optionIndex] && !radioButtons[optionIndex].disabled) {
                 radioButtons[optionIndex].checked = true;
+                radioButtons[optionIndex].dispatchEvent(new Event('change', { bubbles: true }));
             }
             break;
 
+        case 's':
+        case 'S':
+            e.preventDefault();
+            setConfidence('sure');
+            break;
+
+        case 'f':
+        case 'F':
+            e.preventDefault();
+            setConfidence('fiftyFifty');
+            break;
+
+        case 'g':
+        case 'G':
+            e.preventDefault();
+            setConfidence('guess');
+            break;
+
         case ' ': // Spacebar for Save & Next
             e.preventDefault();
             saveNextBtn.click();
@@ -894,6 +2608,8 @@ tabs.forEach(tab => {
         
         const tabName = tab.getAttribute('data-tab');
         activeTabInput.type = tabName;
+        generateTestBtn.textContent = tabName === 'bank' ? 'Assemble Test' : 'Generate Test';
+        if (tabName === 'bank') renderBankFilters();
 
         tabPanes.forEach(pane => {
             if (pane.id === `${tabName}-content`) {
@@ -991,30 +2707,695 @@ function parseManualQuestions(text: string): Question[] | null {
                     topic = topicMatch[1].trim();
                 }
             }
-            
-            // Validate question
-            if (questionText && options.length === 4 && answerChar) {
-                const answerIndex = answerChar.charCodeAt(0) - 'a'.charCodeAt(0);
-                
-                questions.push({
-                    question: questionText,
-                    options: options,
-                    answer: answerIndex,
-                    explanation: explanation || 'No explanation provided.',
-                    subject: subject,
-                    topic: topic
-                });
+            
+            // Validate question
+            if (questionText && options.length === 4 && answerChar) {
+                const answerIndex = answerChar.charCodeAt(0) - 'a'.charCodeAt(0);
+                
+                questions.push({
+                    question: questionText,
+                    options: options,
+                    answer: answerIndex,
+                    explanation: explanation || 'No explanation provided.',
+                    subject: subject,
+                    topic: topic
+                });
+            }
+        }
+        
+        return questions.length > 0 ? questions : null;
+    } catch (error) {
+        console.error('Manual parsing error:', error);
+        return null;
+    }
+}
+
+// --- PDF Page Range & Chapter Selection ---
+interface PdfOutlineEntry {
+    title: string;
+    depth: number;
+    startPage: number;
+    endPage: number;
+}
+
+let selectedPdf: { file: File; doc: pdfjsLib.PDFDocumentProxy; outline: PdfOutlineEntry[] } | null = null;
+
+// pdfjs's RefProxy, which the package does not export by name
+type PdfPageRef = Parameters<pdfjsLib.PDFDocumentProxy['getPageIndex']>[0];
+
+const isPdfPageRef = (value: unknown): value is PdfPageRef => {
+    const ref = asRecord(value);
+    return isWholeNumber(ref.num) && isWholeNumber(ref.gen);
+};
+
+function isPdfFile(file: File): boolean {
+    return file.type === "application/pdf" || file.name.toLowerCase().endsWith('.pdf');
+}
+
+// Flattens the PDF bookmark tree into entries with resolved page ranges.
+// A chapter ends where the next bookmark at the same or a higher level begins.
+async function loadPdfOutline(pdf: pdfjsLib.PDFDocumentProxy): Promise<PdfOutlineEntry[]> {
+    const outline = await pdf.getOutline();
+    if (!outline) return [];
+
+    const entries: PdfOutlineEntry[] = [];
+    const resolvePage = async (dest: string | unknown[] | null): Promise<number | null> => {
+        try {
+            const explicitDest: unknown[] | null = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+            if (!explicitDest || explicitDest.length === 0) return null;
+            // The first element is the target page, as a 0-based index or a page reference
+            const target = explicitDest[0];
+            if (typeof target === 'number') return target + 1;
+            if (!isPdfPageRef(target)) return null;
+            return (await pdf.getPageIndex(target)) + 1;
+        } catch {
+            return null;
+        }
+    };
+    const walk = async (items: typeof outline, depth: number) => {
+        for (const item of items) {
+            const startPage = await resolvePage(item.dest);
+            if (startPage) entries.push({ title: item.title.trim(), depth, startPage, endPage: pdf.numPages });
+            if (item.items?.length) await walk(item.items, depth + 1);
+        }
+    };
+    await walk(outline, 0);
+
+    entries.forEach((entry, index) => {
+        const next = entries.slice(index + 1).find(e => e.depth <= entry.depth);
+        if (next) entry.endPage = Math.max(entry.startPage, next.startPage - 1);
+    });
+    return entries;
+}
+
+function resetPdfRangeOptions() {
+    selectedPdf = null;
+    pdfRangeOptions.classList.add('hidden');
+    pdfChapterGroup.classList.add('hidden');
+    pdfChapterSelect.innerHTML = '<option value="">Entire document</option>';
+    pageStartInput.value = pageEndInput.value = '1';
+    pageStartInput.removeAttribute('max');
+    pageEndInput.removeAttribute('max');
+}
+
+fileUpload.addEventListener('change', async () => {
+    resetPdfRangeOptions();
+    const file = fileUpload.files?.[0];
+    if (!file || !isPdfFile(file)) return;
+
+    try {
+        const doc = await pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+        const outline = await loadPdfOutline(doc);
+        if (fileUpload.files?.[0] !== file) return; // Another file was picked while this one loaded
+        selectedPdf = { file, doc, outline };
+
+        pdfInfo.textContent = `${file.name} • ${doc.numPages} page(s)`;
+        pageStartInput.max = pageEndInput.max = String(doc.numPages);
+        pageStartInput.value = '1';
+        pageEndInput.value = String(doc.numPages);
+
+        if (outline.length > 0) {
+            pdfChapterSelect.innerHTML = '<option value="">Entire document</option>' + outline.map((entry, index) => `
+                <option value="${index}">${'— '.repeat(entry.depth)}${entry.title} (p. ${entry.startPage}–${entry.endPage})</option>
+            `).join('');
+            pdfChapterGroup.classList.remove('hidden');
+        }
+        pdfRangeOptions.classList.remove('hidden');
+    } catch (error) {
+        console.error("Error reading PDF:", error);
+        showToast({ message: 'Could not read this PDF. Page selection is unavailable.', type: 'warning' });
+    }
+});
+
+pdfChapterSelect.addEventListener('change', () => {
+    if (!selectedPdf) return;
+    const entry = selectedPdf.outline[parseInt(pdfChapterSelect.value, 10)];
+    pageStartInput.value = String(entry ? entry.startPage : 1);
+    pageEndInput.value = String(entry ? entry.endPage : selectedPdf.doc.numPages);
+});
+
+[pageStartInput, pageEndInput].forEach(input => input.addEventListener('input', () => {
+    // A hand-edited range no longer corresponds to the picked chapter
+    const entry = selectedPdf?.outline[parseInt(pdfChapterSelect.value, 10)];
+    if (entry && (pageStartInput.value !== String(entry.startPage) || pageEndInput.value !== String(entry.endPage))) {
+        pdfChapterSelect.value = '';
+    }
+}));
+
+// The whole document unless a range was picked for this file once it loaded
+function getSelectedPageRange(file: File, numPages: number): { start: number; end: number; chapter?: string } {
+    if (selectedPdf?.file !== file) return { start: 1, end: numPages };
+    const start = parseInt(pageStartInput.value, 10) || 1;
+    const end = parseInt(pageEndInput.value, 10) || numPages;
+    if (start < 1 || end > numPages) throw new Error(`Page range must be between 1 and ${numPages}.`);
+    if (start > end) throw new Error('The start page must not be after the end page.');
+
+    const entry = selectedPdf?.outline[parseInt(pdfChapterSelect.value, 10)];
+    return { start, end, chapter: entry?.title };
+}
+
+function formatProvenance(provenance: TestProvenance): string {
+    const isWholeDocument = provenance.pageStart === 1 && provenance.pageEnd === provenance.totalPages;
+    const pages = isWholeDocument
+        ? `All ${provenance.totalPages} pages`
+        : `Pages ${provenance.pageStart}–${provenance.pageEnd} of ${provenance.totalPages}`;
+    return [provenance.fileName, pages, provenance.chapter ? `Chapter: ${provenance.chapter}` : ''].filter(Boolean).join(' • ');
+}
+
+// --- Generation Settings ---
+interface GenerationSettings {
+    testName: string;
+    numQuestions: number;
+    language: string;
+    duration: number; // in minutes
+    marks: number;
+    negative: number;
+    questionTypes: QuestionType[];
+    difficultyMix: DifficultyMix;
+}
+
+function readGenerationSettings(): GenerationSettings {
+    const questionTypes = Array.from(questionFormatOptions.querySelectorAll('input[type="checkbox"]:checked'))
+        .map(input => (input as HTMLInputElement).value as QuestionType);
+    return {
+        testName: testNameInput.value.trim(),
+        numQuestions: parseInt(questionsSlider.value, 10),
+        language: languageSelect.value,
+        duration: parseInt(durationInput.value, 10),
+        marks: parseFloat(marksInput.value) || 1,
+        negative: parseFloat(negativeInput.value) || 0,
+        questionTypes: questionTypes.length > 0 ? questionTypes : ['mcq'],
+        difficultyMix: readDifficultyMix()
+    };
+}
+
+function readDifficultyMix(): DifficultyMix {
+    const mix = {
+        easy: Math.max(0, parseFloat(difficultyEasyInput.value) || 0),
+        medium: Math.max(0, parseFloat(difficultyMediumInput.value) || 0),
+        hard: Math.max(0, parseFloat(difficultyHardInput.value) || 0)
+    };
+    return mix.easy + mix.medium + mix.hard > 0 ? mix : { ...DEFAULT_DIFFICULTY_MIX };
+}
+
+const difficultyMixTotalOf = ({ easy, medium, hard }: DifficultyMix) => easy + medium + hard;
+
+function updateDifficultyMixTotal() {
+    const total = difficultyMixTotalOf(readDifficultyMix());
+    difficultyMixTotal.textContent = `${total}%`;
+    difficultyMixTotal.classList.toggle('invalid', total !== 100);
+}
+
+[difficultyEasyInput, difficultyMediumInput, difficultyHardInput].forEach(input =>
+    input.addEventListener('input', updateDifficultyMixTotal)
+);
+
+// Only the AI paths use the mix; bulk import and the bank ignore it
+function requireCompleteDifficultyMix(mix: DifficultyMix) {
+    const total = difficultyMixTotalOf(mix);
+    if (total !== 100) throw new Error(`The difficulty mix adds up to ${total}%. Adjust it to 100% before generating.`);
+}
+
+function questionRequestPrompt(count: number, basis: string, settings: GenerationSettings, counts = difficultyCounts(count, settings.difficultyMix)): string {
+    return `Generate ${count} UPSC-style multiple-choice questions based on ${basis}. The questions should be in ${settings.language}. For each question, provide the question, the options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.\n\n${questionFormatInstructions(settings.questionTypes)}\n\n${difficultyInstructions(counts)}`;
+}
+
+function buildTest(questions: Question[], settings: GenerationSettings, source: string, provenance?: TestProvenance, passages?: Passage[]): Test {
+    return attachPassages({
+        id: `test_${Date.now()}`,
+        name: settings.testName || `Test on ${source}`,
+        questions: questions.map(tagQuestion),
+        duration: settings.duration,
+        language: settings.language,
+        createdAt: new Date().toISOString(),
+        marksPerQuestion: settings.marks,
+        negativeMarking: settings.negative,
+        ...(provenance ? { provenance } : {}),
+        passages: passages ?? []
+    });
+}
+
+// --- Loader Progress ---
+const loaderMessage = loader.querySelector('p') as HTMLElement;
+const loaderProgress = document.getElementById('loader-progress');
+const DEFAULT_LOADER_MESSAGE = 'Generating your test, please wait...';
+
+function updateLoaderProgress(message: string, completed?: number, total?: number) {
+    loaderMessage.textContent = message;
+    if (!loaderProgress) return;
+    if (total === undefined || total <= 1) {
+        loaderProgress.classList.add('hidden');
+        return;
+    }
+    loaderProgress.classList.remove('hidden');
+    (loaderProgress.querySelector('.loader-progress-fill') as HTMLElement).style.width = `${(completed / total) * 100}%`;
+    loaderProgress.querySelector('.loader-progress-count').textContent = `${completed} / ${total}`;
+}
+
+function resetLoader() {
+    updateLoaderProgress(DEFAULT_LOADER_MESSAGE);
+    loader.classList.add('hidden');
+}
+
+// --- Question Generation Requests ---
+// Sends a single generation request and returns the parsed list of questions.
+async function requestQuestions(contents: ContentListUnion): Promise<Question[]> {
+    const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash",
+        contents,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: questionSchema,
+            },
+        },
+    });
+
+    const parsedResponse = parseGenerationResponse(response);
+    return parsedResponse.map(normalizeQuestion);
+}
+
+// Validates a generateContent response and returns its (non-empty) JSON array
+function parseGenerationResponse(response: GenerateContentResponse): unknown[] {
+    if (!response || !response.text) {
+        console.error("Invalid AI Response:", response);
+        const finishReason = response?.candidates?.[0]?.finishReason;
+        let errorMessage = "AI did not return a valid response. It might be empty or malformed.";
+        if (finishReason === FinishReason.SAFETY) {
+            errorMessage = "The request was blocked due to safety concerns. Please adjust your input text or file.";
+        } else if (finishReason) {
+            errorMessage = `Generation failed. Reason: ${finishReason}.`;
+        }
+        throw new Error(errorMessage);
+    }
+
+    const parsedResponse = JSON.parse(response.text);
+
+    if (!Array.isArray(parsedResponse) || parsedResponse.length === 0) {
+        throw new Error("Invalid response format from AI. The generated content was not a valid list of questions.");
+    }
+    return parsedResponse;
+}
+
+const passageGroupSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING, description: "A short title for the passage." },
+            passage: { type: Type.STRING, description: "The reading passage, taken or closely adapted from the source text (150–400 words)." },
+            questions: { type: Type.ARRAY, items: questionSchema, description: "2–5 questions answerable from this passage alone." }
+        },
+        required: ["passage", "questions"]
+    }
+};
+
+function passageGroupPrompt(count: number, text: string, settings: GenerationSettings): string {
+    return `Create CSAT-style reading comprehension sets from the text below, in ${settings.language}. Split the text into self-contained passages of 150–400 words, each followed by 2–5 questions (${count} questions in total). Questions should test the main idea, inferences, assumptions and the author's tone rather than recall of isolated facts, and must be answerable from their passage alone. Every question has type "comprehension", four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic; do not repeat the passage inside the questions.\n\n${difficultyInstructions(difficultyCounts(count, settings.difficultyMix))}\n\nText: """${text}"""`;
+}
+
+// Generates passage groups; each passage becomes a Passage entity referenced by its questions
+async function requestPassageGroups(contents: ContentListUnion): Promise<{ questions: Question[]; passages: Passage[] }> {
+    const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash",
+        contents,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: passageGroupSchema,
+        },
+    });
+
+    const groups = parseGenerationResponse(response);
+    const passages: Passage[] = [];
+    const questions: Question[] = [];
+    groups.forEach((value, groupIndex) => {
+        const group = asRecord(value);
+        const text = String(group.passage ?? '').trim();
+        const groupQuestions = Array.isArray(group.questions) ? group.questions : [];
+        if (!text || groupQuestions.length === 0) return;
+
+        const passage: Passage = { id: `passage_${Date.now()}_${groupIndex}`, text, ...(group.title ? { title: String(group.title) } : {}) };
+        passages.push(passage);
+        groupQuestions.forEach(raw => questions.push(normalizeQuestion({ ...asRecord(raw), type: 'comprehension', passage: undefined, passageId: passage.id })));
+    });
+
+    if (questions.length === 0) {
+        throw new Error("Invalid response format from AI. No passages with questions were generated.");
+    }
+    return { questions, passages };
+}
+
+// --- Large Document Pipeline (map-reduce over page chunks) ---
+interface PageText {
+    pageNumber: number; // 1-indexed
+    text: string;
+}
+
+interface PageChunk {
+    startPage: number;
+    endPage: number;
+    text: string; // Page texts joined with [Page N] markers
+}
+
+const MAX_CHUNK_CHARS = 12000;
+const MIN_PAGE_CHARS = 40; // Pages shorter than this (blank, headers only) carry no weight
+
+async function extractPdfPages(pdf: pdfjsLib.PDFDocumentProxy, startPage: number = 1, endPage: number = pdf.numPages): Promise<PageText[]> {
+    const pages: PageText[] = [];
+    for (let i = startPage; i <= endPage; i++) {
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        const pageText = textContent.items.map(item => ('str' in item ? item.str : '')).join(' ');
+        pages.push({ pageNumber: i, text: pageText.replace(/\s+/g, ' ').trim() });
+    }
+    return pages;
+}
+
+// Packs consecutive pages into chunks of roughly MAX_CHUNK_CHARS so each request stays well within context.
+function chunkPages(pages: PageText[], maxChars: number = MAX_CHUNK_CHARS): PageChunk[] {
+    const chunks: PageChunk[] = [];
+    let current: PageChunk | null = null;
+
+    for (const page of pages) {
+        if (page.text.length < MIN_PAGE_CHARS) continue;
+        const pageBlock = `[Page ${page.pageNumber}]\n${page.text.slice(0, maxChars)}`;
+        if (current && current.text.length + pageBlock.length > maxChars) {
+            chunks.push(current);
+            current = null;
+        }
+        if (!current) {
+            current = { startPage: page.pageNumber, endPage: page.pageNumber, text: pageBlock };
+        } else {
+            current.endPage = page.pageNumber;
+            current.text += `\n\n${pageBlock}`;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+// Splits `total` across weights proportionally using the largest remainder method, so the parts always sum to `total`.
+function allocateProportionally(weights: number[], total: number): number[] {
+    const weightSum = weights.reduce((sum, w) => sum + w, 0);
+    if (weightSum <= 0) return weights.map(() => 0);
+
+    const exact = weights.map(w => (w / weightSum) * total);
+    const allocation = exact.map(Math.floor);
+    let remaining = total - allocation.reduce((sum, n) => sum + n, 0);
+
+    exact
+        .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+        .sort((a, b) => b.remainder - a.remainder)
+        .forEach(({ index }) => {
+            if (remaining > 0) {
+                allocation[index]++;
+                remaining--;
+            }
+        });
+    return allocation;
+}
+
+function pageRangeLabel(startPage: number, endPage: number): string {
+    return startPage === endPage ? `page ${startPage}` : `pages ${startPage}–${endPage}`;
+}
+
+async function generateQuestionsFromPages(pages: PageText[], settings: GenerationSettings): Promise<Question[]> {
+    const chunks = chunkPages(pages);
+    if (chunks.length === 0) throw new Error('No readable text was found in the selected pages.');
+
+    const allocation = allocateProportionally(chunks.map(c => c.text.length), settings.numQuestions);
+    const sized = chunks
+        .map((chunk, index) => ({ chunk, count: allocation[index] }))
+        .filter(job => job.count > 0);
+    const levelCounts = splitDifficultyCounts(difficultyCounts(settings.numQuestions, settings.difficultyMix), sized.map(job => job.count));
+    const jobs = sized.map((job, index) => ({ ...job, levels: levelCounts[index] }));
+
+    let failedChunks = 0;
+    let rateLimitedChunks = 0;
+    updateLoaderProgress(`Generating questions from ${jobs.length} section(s) of the document...`, 0, jobs.length);
+
+    const results = await batchProcess(jobs, async ({ chunk, count, levels }) => {
+        const prompt = `${questionRequestPrompt(count, `only the excerpt below (${pageRangeLabel(chunk.startPage, chunk.endPage)})`, settings, levels)}\n\nSpread the questions across the excerpt rather than focusing on its opening, and give the page number (from the [Page N] markers) each question is based on.\n\nText: """${chunk.text}"""`;
+        try {
+            const questions = await requestQuestions(prompt);
+            return questions.slice(0, count).map(q => ({
+                ...q,
+                sourcePage: q.sourcePage >= chunk.startPage && q.sourcePage <= chunk.endPage ? q.sourcePage : chunk.startPage
+            }));
+        } catch (error) {
+            // Rate limits are retried by batchProcess; any other failure only loses this chunk.
+            if (isRateLimitError(error)) throw error;
+            console.error(`Generation failed for ${pageRangeLabel(chunk.startPage, chunk.endPage)}:`, error);
+            failedChunks++;
+            return [] as Question[];
+        }
+    }, {
+        onProgress: (completed, total, index) => {
+            const { chunk } = jobs[index];
+            updateLoaderProgress(`Generated questions for ${pageRangeLabel(chunk.startPage, chunk.endPage)} (${completed} of ${total} sections)...`, completed, total);
+        },
+        // Keep what the other sections produced rather than failing the whole document
+        onRetriesExhausted: (error, index) => {
+            const { chunk } = jobs[index];
+            console.error(`Rate limit persisted for ${pageRangeLabel(chunk.startPage, chunk.endPage)}:`, error);
+            rateLimitedChunks++;
+            return [] as Question[];
+        }
+    });
+
+    const merged = results.flat();
+    if (merged.length === 0) {
+        throw new Error(rateLimitedChunks > 0 ? 'API rate limit reached for every section of the document. Please wait a minute and try again.' : 'Generation failed for every section of the document.');
+    }
+    if (failedChunks > 0) {
+        showToast({ message: `${failedChunks} of ${jobs.length} document section(s) could not be processed. The test has ${merged.length} questions.`, type: 'warning', duration: 6000 });
+    }
+    if (rateLimitedChunks > 0) {
+        showToast({ message: `The API rate limit was still reached after retrying, so ${rateLimitedChunks} of ${jobs.length} document section(s) were skipped. The test has ${merged.length} questions.`, type: 'warning', duration: 8000 });
+    }
+    return merged;
+}
+
+// --- OCR Pipeline (scanned PDFs) ---
+interface OcrCacheEntry {
+    fileName: string;
+    pages: { [pageNumber: string]: string }; // Reviewed/corrected transcriptions
+    updatedAt: string; // Last written or reused; the oldest files are evicted first
+}
+
+interface PendingOcrGeneration {
+    fileHash: string;
+    source: string;
+    settings: GenerationSettings;
+    provenance: TestProvenance;
+    pages: PageText[];
+}
+
+const OCR_PAGES_PER_REQUEST = 4;
+const OCR_RENDER_SCALE = 1.5;
+const OCR_CACHE_MAX_CHARS = 2_000_000; // Roughly 4 MB of localStorage, leaving room for tests and history
+let pendingOcrGeneration: PendingOcrGeneration | null = null;
+
+async function hashFile(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Caches the pages, evicting the least recently used files until the cache is under its cap and
+// fits in the quota. Returns false if even this file's pages could not be stored.
+function saveOcrPages(fileHash: string, fileName: string, pages: PageText[]): boolean {
+    const cache = getFromStorage<{ [fileHash: string]: OcrCacheEntry }>('ocrCache', {});
+    const entry = cache[fileHash] || { fileName, pages: {}, updatedAt: '' };
+    pages.forEach(p => { entry.pages[p.pageNumber] = p.text; });
+    entry.updatedAt = new Date().toISOString();
+    cache[fileHash] = entry;
+
+    const entrySize = (e: OcrCacheEntry) => Object.values(e.pages).reduce((sum, text) => sum + text.length, 0);
+    const evictable = Object.keys(cache)
+        .filter(hash => hash !== fileHash)
+        .sort((a, b) => cache[a].updatedAt.localeCompare(cache[b].updatedAt));
+    let size = Object.values(cache).reduce((sum, e) => sum + entrySize(e), 0);
+    while (size > OCR_CACHE_MAX_CHARS && evictable.length > 0) {
+        const hash = evictable.shift();
+        size -= entrySize(cache[hash]);
+        delete cache[hash];
+    }
+    while (!saveToStorage('ocrCache', cache)) {
+        if (evictable.length === 0) return false;
+        delete cache[evictable.shift()];
+    }
+    return true;
+}
+
+async function renderPageAsJpeg(pdf: pdfjsLib.PDFDocumentProxy, pageNumber: number): Promise<string> {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    canvas.height = viewport.height;
+    canvas.width = viewport.width;
+
+    await page.render({ canvasContext: context, viewport: viewport, canvas: canvas } as any).promise;
+    const base64Image = canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+    canvas.width = canvas.height = 0; // Release the bitmap before rendering the next page
+    return base64Image;
+}
+
+async function transcribePageBatch(pdf: pdfjsLib.PDFDocumentProxy, pageNumbers: number[]): Promise<PageText[]> {
+    const imageParts = [];
+    for (const pageNumber of pageNumbers) {
+        imageParts.push({ inlineData: { mimeType: 'image/jpeg', data: await renderPageAsJpeg(pdf, pageNumber) } });
+    }
+    const textPart = { text: `Transcribe the complete text of the following ${pageNumbers.length} scanned page image(s), in order. They are pages ${pageNumbers.join(', ')} of a book. Preserve the original language and paragraph breaks, and skip running headers, footers and page numbers. Return one entry per page with its page number and transcribed text.` };
+
+    const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash",
+        contents: { parts: [textPart, ...imageParts] },
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        page: { type: Type.INTEGER },
+                        text: { type: Type.STRING }
+                    },
+                    required: ["page", "text"]
+                }
+            },
+        },
+    });
+    if (!response?.text) throw new Error('OCR returned an empty response.');
+
+    const transcribed: { page: number; text: string }[] = JSON.parse(response.text);
+    return pageNumbers.map((pageNumber, i) => ({
+        pageNumber,
+        // Prefer the page the model labelled; fall back to position if the labels are off
+        text: (transcribed.find(t => t.page === pageNumber) ?? transcribed[i])?.text?.trim() || ''
+    }));
+}
+
+// Returns transcriptions for every page in range, reusing cached pages and OCR-ing only the rest.
+async function runOcr(pdf: pdfjsLib.PDFDocumentProxy, fileHash: string, fileName: string, startPage: number, endPage: number): Promise<PageText[]> {
+    const cachedPages = getFromStorage<{ [fileHash: string]: OcrCacheEntry }>('ocrCache', {})[fileHash]?.pages || {};
+    let cacheFull = Object.keys(cachedPages).length > 0 && !saveOcrPages(fileHash, fileName, []); // Marks the file as recently used
+    const missing: number[] = [];
+    for (let i = startPage; i <= endPage; i++) {
+        if (cachedPages[i] === undefined) missing.push(i);
+    }
+
+    const batches: number[][] = [];
+    for (let i = 0; i < missing.length; i += OCR_PAGES_PER_REQUEST) {
+        batches.push(missing.slice(i, i + OCR_PAGES_PER_REQUEST));
+    }
+
+    let failedBatches = 0;
+    if (batches.length > 0) {
+        const cachedCount = (endPage - startPage + 1) - missing.length;
+        updateLoaderProgress(`Running OCR on ${missing.length} page(s)${cachedCount > 0 ? ` (${cachedCount} already cached)` : ''}...`, 0, batches.length);
+        await batchProcess(batches, async (pageNumbers) => {
+            try {
+                const pages = await transcribePageBatch(pdf, pageNumbers);
+                // Cache as we go so a later failure doesn't lose work
+                if (!saveOcrPages(fileHash, fileName, pages)) cacheFull = true;
+                pages.forEach(p => { cachedPages[p.pageNumber] = p.text; });
+            } catch (error) {
+                if (isRateLimitError(error)) throw error;
+                console.error(`OCR failed for ${pageRangeLabel(pageNumbers[0], pageNumbers[pageNumbers.length - 1])}:`, error);
+                failedBatches++;
+            }
+        }, {
+            onProgress: (completed, total, index) => {
+                const pageNumbers = batches[index];
+                updateLoaderProgress(`Transcribed ${pageRangeLabel(pageNumbers[0], pageNumbers[pageNumbers.length - 1])} (${completed} of ${total} batches)...`, completed, total);
             }
-        }
-        
-        return questions.length > 0 ? questions : null;
+        });
+    }
+
+    if (failedBatches > 0) {
+        showToast({ message: `OCR failed for ${failedBatches} batch(es) of pages. Those pages are left blank for you to fill in or skip.`, type: 'warning', duration: 6000 });
+    }
+    if (cacheFull) {
+        showToast({ message: 'Browser storage is full, so these transcriptions could not be cached. They will be transcribed again next time.', type: 'warning', duration: 6000 });
+    }
+
+    const pages: PageText[] = [];
+    for (let i = startPage; i <= endPage; i++) {
+        pages.push({ pageNumber: i, text: cachedPages[i] ?? '' });
+    }
+    return pages;
+}
+
+function openOcrReview(pending: PendingOcrGeneration) {
+    pendingOcrGeneration = pending;
+    ocrReviewSummary.textContent = `${pending.provenance.fileName} • ${pageRangeLabel(pending.provenance.pageStart, pending.provenance.pageEnd)}. Correct any OCR mistakes below; your edits are saved for this file.`;
+    ocrReviewPages.innerHTML = pending.pages.map(page => `
+        <div class="ocr-page-item">
+            <label for="ocr-page-${page.pageNumber}">Page ${page.pageNumber}${page.text ? '' : ' <span class="ocr-empty-tag">no text</span>'}</label>
+            <textarea id="ocr-page-${page.pageNumber}" data-page="${page.pageNumber}" rows="6">${page.text.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</textarea>
+        </div>
+    `).join('');
+    ocrReviewPanel.classList.remove('hidden');
+    ocrReviewPanel.scrollIntoView({ behavior: 'smooth' });
+}
+
+function closeOcrReview() {
+    pendingOcrGeneration = null;
+    ocrReviewPanel.classList.add('hidden');
+    ocrReviewPages.innerHTML = '';
+}
+
+async function handleGenerateFromTranscription() {
+    if (!pendingOcrGeneration) return;
+    if (!ai) {
+        showToast({ message: 'AI Service is not available. Please configure API key in Settings.', type: 'error' });
+        return;
+    }
+    const pending = pendingOcrGeneration;
+    const pages: PageText[] = Array.from(ocrReviewPages.querySelectorAll('textarea')).map(textarea => ({
+        pageNumber: parseInt(textarea.dataset.page, 10),
+        text: textarea.value.trim()
+    }));
+    if (!saveOcrPages(pending.fileHash, pending.provenance.fileName, pages)) {
+        showToast({ message: 'Browser storage is full, so your corrections could not be cached.', type: 'warning' });
+    }
+
+    loader.classList.remove('hidden');
+    generateTestBtn.disabled = true;
+    ocrGenerateBtn.disabled = true;
+    try {
+        const questions = await generateQuestionsFromPages(pages, pending.settings);
+        currentTest = buildTest(questions, pending.settings, pending.source, pending.provenance);
+        closeOcrReview();
+        renderEditableTest(currentTest);
+        showView(editTestView);
+        reviewDuplicatesInEditor();
     } catch (error) {
-        console.error('Manual parsing error:', error);
-        return null;
+        console.error("Error generating test from transcription:", error);
+        showToast({ message: `Failed to generate test. ${error.message}`, type: 'error' });
+    } finally {
+        resetLoader();
+        generateTestBtn.disabled = false;
+        ocrGenerateBtn.disabled = false;
     }
 }
 
+ocrGenerateBtn.addEventListener('click', handleGenerateFromTranscription);
+ocrDiscardBtn.addEventListener('click', () => {
+    if (confirm('Discard this transcription review? Transcribed pages stay cached for this file.')) {
+        closeOcrReview();
+    }
+});
+
 async function handleGenerateTest() {
+    // Assembling from the bank is purely local and works without an API key
+    if (activeTabInput.type === 'bank') {
+        handleAssembleFromBank();
+        return;
+    }
+
     if (!ai) {
         showToast({ message: 'AI Service is not available. Please configure API key in Settings.', type: 'error' });
         return;
@@ -1025,27 +3406,36 @@ async function handleGenerateTest() {
 
     let source = "Custom Input";
     let contentsForApi;
+    let generatedQuestions: Question[] | null = null;
+    let generatedPassages: Passage[] | undefined;
+    let provenance: TestProvenance | undefined;
 
-    const numQuestions = parseInt(questionsSlider.value, 10);
-    const language = languageSelect.value;
-    const testName = testNameInput.value.trim();
-    const marks = parseFloat(marksInput.value) || 1;
-    const negative = parseFloat(negativeInput.value) || 0;
+    const settings = readGenerationSettings();
+    const { numQuestions, language } = settings;
 
     try {
         switch (activeTabInput.type) {
             case 'topic':
                 const topic = topicInput.value.trim();
                 if (!topic) throw new Error('Please enter a topic.');
+                requireCompleteDifficultyMix(settings.difficultyMix);
                 source = topic;
-                const promptTopic = `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following topic: ${topic}. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.`;
+                const promptTopic = questionRequestPrompt(numQuestions, `the following topic: ${topic}`, settings);
                 contentsForApi = promptTopic;
                 break;
             case 'text':
                 const text = textInput.value.trim();
                 if (!text) throw new Error('Please paste some text.');
+                requireCompleteDifficultyMix(settings.difficultyMix);
                 source = "Pasted Text";
-                const promptText = `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following text: """${text}""". The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.`;
+                if (passageModeCheckbox.checked) {
+                    updateLoaderProgress('Building comprehension passages...');
+                    const groups = await requestPassageGroups(passageGroupPrompt(numQuestions, text, settings));
+                    generatedQuestions = groups.questions;
+                    generatedPassages = groups.passages;
+                    break;
+                }
+                const promptText = questionRequestPrompt(numQuestions, `the following text: """${text}"""`, settings);
                 contentsForApi = promptText;
                 break;
             case 'manual':
@@ -1058,19 +3448,11 @@ async function handleGenerateTest() {
                 
                 if (parsedQuestions && parsedQuestions.length > 0) {
                     // Successfully parsed without AI
-                    currentTest = {
-                        id: `test_${Date.now()}`,
-                        name: testName || `Test on ${source}`,
-                        questions: parsedQuestions,
-                        duration: parseInt(durationInput.value, 10),
-                        language: language,
-                        createdAt: new Date().toISOString(),
-                        marksPerQuestion: marks,
-                        negativeMarking: negative
-                    };
+                    currentTest = buildTest(parsedQuestions, settings, source);
                     
                     renderEditableTest(currentTest);
                     showView(editTestView);
+                    reviewDuplicatesInEditor();
                     loader.classList.add('hidden');
                     generateTestBtn.disabled = false;
                     return; // Exit early, no AI needed
@@ -1097,51 +3479,42 @@ async function handleGenerateTest() {
             case 'file':
                 const file = fileUpload.files[0];
                 if (!file) throw new Error('Please select a file to upload.');
+                requireCompleteDifficultyMix(settings.difficultyMix);
                 source = file.name;
 
                 if (file.type === "text/plain" || file.name.toLowerCase().endsWith('.txt')) {
                     const fileText = await file.text();
                     if (!fileText.trim()) throw new Error('The uploaded file is empty.');
-                    const promptFileText = `Generate ${numQuestions} ... based on the following text: """${fileText}"""`;
+                    const promptFileText = questionRequestPrompt(numQuestions, `the following text: """${fileText}"""`, settings);
                     contentsForApi = promptFileText;
-                } else if (file.type === "application/pdf" || file.name.toLowerCase().endsWith('.pdf')) {
-                    const arrayBuffer = await file.arrayBuffer();
-                    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-                    let fullText = '';
-                    for (let i = 1; i <= pdf.numPages; i++) {
-                        const page = await pdf.getPage(i);
-                        const textContent = await page.getTextContent();
-                        const pageText = textContent.items.map(item => ('str' in item ? item.str : '')).join(' ');
-                        fullText += pageText + '\n\n';
-                    }
+                } else if (isPdfFile(file)) {
+                    const pdf = selectedPdf?.file === file
+                        ? selectedPdf.doc
+                        : await pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+                    const range = getSelectedPageRange(file, pdf.numPages);
+                    provenance = {
+                        fileName: file.name,
+                        totalPages: pdf.numPages,
+                        pageStart: range.start,
+                        pageEnd: range.end,
+                        ...(range.chapter ? { chapter: range.chapter } : {})
+                    };
+
+                    updateLoaderProgress(`Reading ${range.end - range.start + 1} page(s) from the PDF...`);
+                    const pages = await extractPdfPages(pdf, range.start, range.end);
+                    const totalTextLength = pages.reduce((sum, p) => sum + p.text.length, 0);
 
                     const MINIMUM_TEXT_LENGTH = 100;
 
-                    if (fullText.trim().length > MINIMUM_TEXT_LENGTH) {
-                        const promptPDFText = `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the following text. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.\n\nText: """${fullText}"""`;
-                        contentsForApi = promptPDFText;
+                    if (totalTextLength > MINIMUM_TEXT_LENGTH) {
+                        generatedQuestions = await generateQuestionsFromPages(pages, settings);
                     } else {
-                        (loader.querySelector('p') as HTMLElement).textContent = 'Minimal text found. Attempting OCR on PDF pages for better results...';
-                        
-                        const textPart = { text: `Generate ${numQuestions} UPSC-style multiple-choice questions (4 options) based on the content in the following images. The questions should be in ${language}. For each question, provide the question, four options, the 0-indexed correct answer, a detailed explanation, the general subject, and the specific topic.` };
-                        const imageParts = [];
-
-                        for (let i = 1; i <= pdf.numPages; i++) {
-                            const page = await pdf.getPage(i);
-                            const viewport = page.getViewport({ scale: 1.5 });
-                            const canvas = document.createElement('canvas');
-                            const context = canvas.getContext('2d');
-                            canvas.height = viewport.height;
-                            canvas.width = viewport.width;
-
-                            await page.render({ canvasContext: context, viewport: viewport, canvas: canvas } as any).promise;
-                            
-                            const base64Image = canvas.toDataURL('image/jpeg').split(',')[1];
-                            imageParts.push({ inlineData: { mimeType: 'image/jpeg', data: base64Image } });
-                        }
-                        if (imageParts.length === 0) throw new Error('Could not extract any images from the PDF.');
-
-                        contentsForApi = { parts: [textPart, ...imageParts] };
+                        // Scanned document: transcribe page by page, then let the user review before generating
+                        updateLoaderProgress('Minimal text found. Running OCR on the scanned pages...');
+                        const fileHash = await hashFile(file);
+                        const ocrPages = await runOcr(pdf, fileHash, file.name, range.start, range.end);
+                        openOcrReview({ fileHash, source, settings, provenance, pages: ocrPages });
+                        return;
                     }
                 } else {
                     throw new Error(`Unsupported file type: '${file.type || 'unknown'}'. Please upload a PDF or TXT file.`);
@@ -1149,63 +3522,404 @@ async function handleGenerateTest() {
                 break;
         }
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: contentsForApi,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: questionSchema,
-                },
-            },
-        });
-
-        if (!response || !response.text) {
-            console.error("Invalid AI Response:", response);
-            const finishReason = response?.candidates?.[0]?.finishReason;
-            let errorMessage = "AI did not return a valid response. It might be empty or malformed.";
-            if (finishReason === 'SAFETY') {
-                errorMessage = "The request was blocked due to safety concerns. Please adjust your input text or file.";
-            } else if (finishReason) {
-                errorMessage = `Generation failed. Reason: ${finishReason}.`;
-            }
-            throw new Error(errorMessage);
-        }
-
-        const parsedResponse = JSON.parse(response.text);
-
-        if (!Array.isArray(parsedResponse) || parsedResponse.length === 0) {
-            throw new Error("Invalid response format from AI. The generated content was not a valid list of questions.");
-        }
+        const parsedResponse = generatedQuestions ?? await requestQuestions(contentsForApi);
 
-        currentTest = {
-            id: `test_${Date.now()}`,
-            name: testName || `Test on ${source}`,
-            questions: parsedResponse,
-            duration: parseInt(durationInput.value, 10),
-            language: language,
-            createdAt: new Date().toISOString(),
-            marksPerQuestion: marks,
-            negativeMarking: negative
-        };
+        currentTest = buildTest(parsedResponse, settings, source, provenance, generatedPassages);
 
         renderEditableTest(currentTest);
         showView(editTestView);
+        reviewDuplicatesInEditor();
     } catch (error) {
         console.error("Error generating test:", error);
         showToast({ message: `Failed to generate test. ${error.message}`, type: 'error' });
     } finally {
-        (loader.querySelector('p') as HTMLElement).textContent = 'Generating your test, please wait...';
-        loader.classList.add('hidden');
+        resetLoader();
         generateTestBtn.disabled = false;
     }
 }
 
 
+// --- Assemble From Question Bank ---
+type BankHistoryFilter = 'any' | 'wrong' | 'unattempted';
+
+interface BankFilters {
+    subjects: string[];
+    topics: string[];
+    difficulties: string[]; // difficulty levels, or 'unrated'
+    history: BankHistoryFilter;
+}
+
+interface BankPoolItem {
+    question: Question;
+    subject: string;
+    topic: string;
+    timesAnswered: number;
+    timesWrong: number;
+}
+
+// Snapshot of the bank taken when the tab is opened, so toggling filters doesn't re-read storage
+let bankPool: BankPoolItem[] = [];
+
+// Current version of every question in a saved test, with its syllabus buckets and how it went in past attempts
+function buildBankPool(): BankPoolItem[] {
+    const bank = getFromStorage<QuestionBank>('questionBank', {});
+    const outcomes = new Map<string, { answered: number; wrong: number }>();
+    loadHistory().forEach(attempt => {
+        attempt.fullTest.questions.forEach((q, i) => {
+            const answer = attempt.userAnswers[i];
+            if (!q.id || answer === null || answer === undefined) return;
+            const outcome = outcomes.get(q.id) ?? { answered: 0, wrong: 0 };
+            outcome.answered++;
+            if (!isAnswerCorrect(q, answer)) outcome.wrong++;
+            outcomes.set(q.id, outcome);
+        });
+    });
+
+    // Only questions a saved test still uses; ones kept just for past attempts belong to deleted tests
+    const liveIds = new Set(getFromStorage<TestRecord[]>('tests', []).flatMap(t => ('questionIds' in t ? t.questionIds : [])));
+    return Array.from(liveIds)
+        .map(id => currentRef(bank, id))
+        .filter(Boolean)
+        .map(ref => hydrateQuestion(bank, ref))
+        .filter(Boolean)
+        .map(question => {
+            const outcome = outcomes.get(question.id);
+            return {
+                question,
+                ...syllabusBuckets(question),
+                timesAnswered: outcome?.answered ?? 0,
+                timesWrong: outcome?.wrong ?? 0
+            };
+        });
+}
+
+const checkedValues = (container: HTMLElement): string[] =>
+    Array.from(container.querySelectorAll('input[type="checkbox"]:checked')).map(input => (input as HTMLInputElement).value);
+
+function readBankFilters(): BankFilters {
+    return {
+        subjects: checkedValues(bankSubjectOptions),
+        topics: checkedValues(bankTopicOptions),
+        difficulties: checkedValues(bankDifficultyOptions),
+        history: bankHistorySelect.value as BankHistoryFilter
+    };
+}
+
+function matchesBankFilters(item: BankPoolItem, filters: BankFilters): boolean {
+    if (filters.subjects.length > 0 && !filters.subjects.includes(item.subject)) return false;
+    if (filters.topics.length > 0 && !filters.topics.includes(item.topic)) return false;
+    if (filters.difficulties.length > 0 && !filters.difficulties.includes(item.question.difficulty ?? 'unrated')) return false;
+    if (filters.history === 'wrong') return item.timesWrong > 0;
+    if (filters.history === 'unattempted') return item.timesAnswered === 0;
+    return true;
+}
+
+function renderFilterChips(container: HTMLElement, counts: Map<string, number>, selected: string[], labels: Record<string, string> = {}) {
+    if (counts.size === 0) {
+        container.innerHTML = '<p class="no-data">Nothing to choose from yet.</p>';
+        return;
+    }
+    container.innerHTML = Array.from(counts.entries()).map(([value, count]) => `
+        <label class="format-chip"><input type="checkbox" value="${value}" ${selected.includes(value) ? 'checked' : ''}> ${labels[value] ?? value} <span class="chip-count">${count}</span></label>
+    `).join('');
+}
+
+function countBy(items: BankPoolItem[], key: (item: BankPoolItem) => string): Map<string, number> {
+    const counts = new Map<string, number>();
+    items.forEach(item => counts.set(key(item), (counts.get(key(item)) ?? 0) + 1));
+    return new Map(Array.from(counts.entries()).sort((a, b) => a[0].localeCompare(b[0])));
+}
+
+// Topics are limited to the chosen subjects; the match count reflects every filter
+function updateBankFilters() {
+    const filters = readBankFilters();
+    const inSubjects = bankPool.filter(item => filters.subjects.length === 0 || filters.subjects.includes(item.subject));
+    renderFilterChips(bankTopicOptions, countBy(inSubjects, item => item.topic), filters.topics);
+
+    const matches = bankPool.filter(item => matchesBankFilters(item, readBankFilters())).length;
+    const requested = parseInt(questionsSlider.value, 10);
+    bankMatchCount.textContent = matches === 0
+        ? 'No questions match these filters.'
+        : `${matches} question(s) match. The test will use ${Math.min(matches, requested)} of them.`;
+    bankMatchCount.classList.toggle('empty', matches === 0);
+}
+
+function renderBankFilters() {
+    const previous = readBankFilters();
+    bankPool = buildBankPool();
+    renderFilterChips(bankSubjectOptions, countBy(bankPool, item => item.subject), previous.subjects);
+    const difficultyCounts = countBy(bankPool, item => item.question.difficulty ?? 'unrated');
+    const orderedDifficulties = new Map(
+        [...DIFFICULTY_LEVELS, 'unrated'].filter(level => difficultyCounts.has(level)).map(level => [level, difficultyCounts.get(level)])
+    );
+    renderFilterChips(bankDifficultyOptions, orderedDifficulties, previous.difficulties, { ...DIFFICULTY_LABELS, unrated: 'Not rated' });
+    updateBankFilters();
+}
+
+bankContent.addEventListener('change', updateBankFilters);
+questionsSlider.addEventListener('input', () => {
+    if (activeTabInput.type === 'bank') updateBankFilters();
+});
+
+// Random selection; questions sharing a passage are then placed next to each other
+function pickBankQuestions(items: BankPoolItem[], count: number): Question[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return groupPassageQuestions(shuffled.slice(0, count).map(item => item.question));
+}
+
+function handleAssembleFromBank() {
+    const settings = readGenerationSettings();
+    const filters = readBankFilters();
+    const matches = bankPool.filter(item => matchesBankFilters(item, filters));
+    if (matches.length === 0) {
+        showToast({ message: 'No questions in the bank match these filters.', type: 'warning' });
+        return;
+    }
+
+    const questions = pickBankQuestions(matches, settings.numQuestions);
+    if (questions.length < settings.numQuestions) {
+        showToast({ message: `Only ${questions.length} question(s) match these filters, so the test uses all of them.`, type: 'info' });
+    }
+
+    const source = filters.subjects.length > 0 ? filters.subjects.join(', ') : 'Question Bank';
+    const passages = passagesForQuestions(getFromStorage<PassageBank>('passageBank', {}), questions);
+    currentTest = buildTest(questions, settings, source, undefined, passages);
+
+    renderEditableTest(currentTest);
+    showView(editTestView);
+}
+
 // --- Edit Test Logic ---
+// Format-specific inputs shown between the question text and the options
+function renderQuestionTypeFields(q: Question, index: number, passages: Passage[]): string {
+    switch (q.type) {
+        case 'assertionReason':
+            return `
+                <label for="q-assertion-${index}">Assertion (A)</label>
+                <textarea id="q-assertion-${index}">${q.assertion}</textarea>
+                <label for="q-reason-${index}">Reason (R)</label>
+                <textarea id="q-reason-${index}">${q.reason}</textarea>
+            `;
+        case 'matchFollowing':
+            return `
+                <div class="meta-grid">
+                    <div>
+                        <label for="q-list1-${index}">List-I (one item per line)</label>
+                        <textarea id="q-list1-${index}">${q.listI.join('\n')}</textarea>
+                    </div>
+                    <div>
+                        <label for="q-list2-${index}">List-II (one item per line)</label>
+                        <textarea id="q-list2-${index}">${q.listII.join('\n')}</textarea>
+                    </div>
+                </div>
+            `;
+        case 'statementCount':
+            return `
+                <label for="q-statements-${index}">Statements (one per line)</label>
+                <textarea id="q-statements-${index}">${q.statements.join('\n')}</textarea>
+            `;
+        case 'comprehension':
+            return `
+                <label for="q-passage-${index}">Passage</label>
+                <select id="q-passage-${index}">
+                    ${passages.map((p, pIndex) => `
+                        <option value="${p.id}" ${q.passageId === p.id ? 'selected' : ''}>Passage ${pIndex + 1}${p.title ? `: ${p.title}` : ''}</option>
+                    `).join('')}
+                </select>
+            `;
+        default:
+            return '';
+    }
+}
+
+function renderEditablePassages(test: Test) {
+    const passages = test.passages ?? [];
+    editablePassagesContainer.innerHTML = `
+        <div class="editable-passages-header">
+            <h3><span class="material-symbols-outlined">article</span> Passages</h3>
+            <button class="action-btn add-passage-btn">
+                <span class="material-symbols-outlined">add</span> Add Passage
+            </button>
+        </div>
+        ${passages.length === 0 ? '<p class="placeholder">No passages. Add one to group comprehension questions under a shared text.</p>' : ''}
+        ${passages.map((p, pIndex) => `
+            <div class="editable-passage-item" data-passage-id="${p.id}">
+                <div class="editable-passage-header">
+                    <h4>Passage ${pIndex + 1} <span class="passage-label">${passageQuestionLabel(test, p.id) || 'Not used yet'}</span></h4>
+                    <button class="icon-btn delete-passage" title="Delete Passage">
+                        <span class="material-symbols-outlined">delete</span>
+                    </button>
+                </div>
+                <label>Title (optional)</label>
+                <input type="text" class="passage-title-input" value="${p.title ?? ''}">
+                <label>Passage Text</label>
+                <textarea class="passage-text-input" rows="6">${p.text}</textarea>
+            </div>
+        `).join('')}
+    `;
+}
+
+editablePassagesContainer.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (!currentTest) return;
+
+    if (target.closest('.add-passage-btn')) {
+        syncCurrentTestFromDOM();
+        currentTest.passages = [...(currentTest.passages ?? []), { id: `passage_${Date.now()}`, text: '' }];
+        renderEditableTest(currentTest);
+        return;
+    }
+
+    const deleteBtn = target.closest('.delete-passage');
+    if (deleteBtn) {
+        const passageId = (deleteBtn.closest('.editable-passage-item') as HTMLElement).dataset.passageId;
+        if (!confirm('Delete this passage? Questions that use it will become standard MCQs.')) return;
+        syncCurrentTestFromDOM();
+        currentTest.passages = (currentTest.passages ?? []).filter(p => p.id !== passageId);
+        currentTest.questions = currentTest.questions.map(q =>
+            q.type === 'comprehension' && q.passageId === passageId ? convertQuestionType(q, 'mcq') : q
+        );
+        renderEditableTest(currentTest);
+    }
+});
+
+function renderEditableSections(test: Test) {
+    const ranges = sectionRanges(test);
+    const timed = isSectionTimed(test);
+    editableSectionsContainer.innerHTML = `
+        <div class="editable-passages-header">
+            <h3><span class="material-symbols-outlined">view_agenda</span> Sections</h3>
+            <div class="editable-sections-actions">
+                <button class="action-btn split-sections-btn">
+                    <span class="material-symbols-outlined">category</span> Split by Subject
+                </button>
+                <button class="action-btn add-section-btn">
+                    <span class="material-symbols-outlined">add</span> Add Section
+                </button>
+            </div>
+        </div>
+        ${ranges.length === 0 ? `<p class="placeholder">No sections. All ${test.questions.length} questions run as one block under the test's duration.</p>` : ''}
+        ${ranges.map((range, sIndex) => `
+            <div class="editable-section-item" data-section-id="${range.section.id}">
+                <div class="editable-section-fields">
+                    <div>
+                        <label>Name</label>
+                        <input type="text" class="section-name-input" value="${range.section.name}">
+                    </div>
+                    <div>
+                        <label>Questions</label>
+                        <input type="number" class="section-count-input" min="0" value="${range.end - range.start}"
+                            ${sIndex === ranges.length - 1 ? 'disabled title="The last section takes the remaining questions"' : ''}>
+                    </div>
+                    <div>
+                        <label>Time Limit (min)</label>
+                        <input type="number" class="section-duration-input" min="1" step="1" placeholder="None" value="${range.section.duration ?? ''}">
+                    </div>
+                    <div>
+                        <label>Marks / Question</label>
+                        <input type="number" class="section-marks-input" min="0" step="0.01" placeholder="${test.marksPerQuestion || 1}" value="${range.section.marksPerQuestion ?? ''}">
+                    </div>
+                    <div>
+                        <label>Negative</label>
+                        <input type="number" class="section-negative-input" min="0" step="0.01" placeholder="${test.negativeMarking || 0}" value="${range.section.negativeMarking ?? ''}">
+                    </div>
+                </div>
+                <span class="passage-label">${range.end > range.start ? `Q${range.start + 1}–${range.end}` : 'No questions'}</span>
+                <button class="icon-btn delete-section" title="Delete Section">
+                    <span class="material-symbols-outlined">delete</span>
+                </button>
+            </div>
+        `).join('')}
+        ${ranges.length > 0 ? `
+            <label class="passage-mode-option">
+                <input type="checkbox" id="sections-locked-input" ${test.sectionLocked || timed ? 'checked' : ''} ${timed ? 'disabled' : ''}>
+                Lock navigation to one section at a time
+            </label>
+            <p class="placeholder">Give every section a time limit for sectional timing: each section is then locked, runs on its own clock and the test duration becomes their total.</p>
+        ` : ''}
+    `;
+}
+
+editableSectionsContainer.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (!currentTest) return;
+
+    if (target.closest('.add-section-btn')) {
+        syncCurrentTestFromDOM();
+        const sections = sectionRanges(currentTest).map(range => ({ ...range.section, questionCount: range.end - range.start }));
+        const last = sections[sections.length - 1];
+        if (last) {
+            // The new section takes the second half of the last one
+            last.questionCount = Math.ceil(last.questionCount / 2);
+        }
+        currentTest.sections = [
+            ...sections,
+            { id: createId('section'), name: `Section ${sections.length + 1}`, questionCount: last ? 0 : currentTest.questions.length }
+        ];
+        renderEditableSections(currentTest);
+        return;
+    }
+
+    if (target.closest('.split-sections-btn')) {
+        if (currentTest.sections?.length && !confirm('Replace the current sections with one section per subject? Questions will be reordered by subject.')) return;
+        syncCurrentTestFromDOM();
+        currentTest = splitSectionsBySubject(currentTest);
+        renderEditableTest(currentTest);
+        return;
+    }
+
+    const deleteBtn = target.closest('.delete-section');
+    if (deleteBtn) {
+        const sectionId = (deleteBtn.closest('.editable-section-item') as HTMLElement).dataset.sectionId;
+        syncCurrentTestFromDOM();
+        const sections = sectionRanges(currentTest).map(range => ({ ...range.section, questionCount: range.end - range.start }));
+        const index = sections.findIndex(section => section.id === sectionId);
+        // Its questions join the previous section (or the next one, for the first section)
+        const neighbour = sections[index - 1] ?? sections[index + 1];
+        if (neighbour) neighbour.questionCount += sections[index].questionCount;
+        sections.splice(index, 1);
+        currentTest.sections = sections.length ? sections : undefined;
+        if (!currentTest.sections) currentTest.sectionLocked = undefined;
+        renderEditableSections(currentTest);
+    }
+});
+
+// Counts and time limits change the question ranges and locking, so refresh the panel
+editableSectionsContainer.addEventListener('change', (e) => {
+    const target = e.target as HTMLElement;
+    if (!currentTest || !target.matches('.section-count-input, .section-duration-input')) return;
+    syncCurrentTestFromDOM();
+    renderEditableSections(currentTest);
+});
+
+// "Auto" follows subject/topic edits; picking a node pins it as a manual override
+function renderSyllabusSelect(q: Question, index: number): string {
+    const detected = classifyToSyllabus(q.subject, q.topic);
+    const selected = q.syllabusOverride ? q.syllabusNodeId : '';
+    return `
+        <select id="q-syllabus-${index}">
+            <option value="">Auto${detected ? ` (${syllabusPath(SYLLABUS_INDEX.get(detected.id))})` : ' (no match)'}</option>
+            ${UPSC_SYLLABUS.areas.map(area => `
+                <optgroup label="${area.name}">
+                    <option value="${area.id}" ${selected === area.id ? 'selected' : ''}>${area.name} (general)</option>
+                    ${(area.children ?? []).map(child => `
+                        <option value="${child.id}" ${selected === child.id ? 'selected' : ''}>${child.name}</option>
+                    `).join('')}
+                </optgroup>
+            `).join('')}
+        </select>
+    `;
+}
+
 function renderEditableTest(test: Test) {
     editTestTitle.textContent = `Review & Edit: ${test.name}`;
+    editCutoffSelect.innerHTML = `${renderCutoffOptions(test.cutoffProfileId, true)}<option value="${ADD_CUSTOM_CUTOFF}">Add custom cut-off…</option>`;
+    renderEditableSections(test);
+    renderEditablePassages(test);
     
     // We render using a details/summary structure (or similar) to make it collapsible.
     // However, native <details> with form inputs can be tricky if we want to programmatically open/close,
@@ -1214,7 +3928,7 @@ function renderEditableTest(test: Test) {
     editableQuestionsContainer.innerHTML = test.questions.map((q, index) => `
         <div class="editable-question-item" data-question-index="${index}" id="eq-${index}">
             <div class="editable-question-header">
-                <h4>Question ${index + 1}</h4>
+                <h4>Question ${index + 1}${q.id ? ` <span class="bank-ref" title="Question bank id">${q.id} · v${q.version}</span>` : ''}</h4>
                 <div class="editable-question-actions">
                     <button class="icon-btn delete-q" title="Delete Question">
                         <span class="material-symbols-outlined">delete</span>
@@ -1226,8 +3940,16 @@ function renderEditableTest(test: Test) {
             </div>
             
             <div class="editable-question-body hidden">
-                <label for="q-text-${index}">Question Text</label>
+                <label for="q-type-${index}">Question Format</label>
+                <select id="q-type-${index}" class="q-type-select">
+                    ${(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => `
+                        <option value="${type}" ${(q.type ?? 'mcq') === type ? 'selected' : ''}>${QUESTION_TYPE_LABELS[type]}</option>
+                    `).join('')}
+                </select>
+
+                <label for="q-text-${index}">${(q.type ?? 'mcq') === 'mcq' ? 'Question Text' : 'Question / Lead-in'}</label>
                 <textarea id="q-text-${index}">${q.question}</textarea>
+                ${renderQuestionTypeFields(q, index, test.passages ?? [])}
                 
                 <label>Options (Select Correct Answer)</label>
                 <div class="options-editor">
@@ -1248,6 +3970,43 @@ function renderEditableTest(test: Test) {
                         <label for="q-topic-${index}">Topic</label>
                         <input type="text" id="q-topic-${index}" value="${q.topic}">
                     </div>
+                    <div>
+                        <label for="q-syllabus-${index}">Syllabus Node</label>
+                        ${renderSyllabusSelect(q, index)}
+                    </div>
+                    <div>
+                        <label for="q-difficulty-${index}">Difficulty</label>
+                        <select id="q-difficulty-${index}">
+                            <option value="" ${!q.difficulty ? 'selected' : ''}>Not set</option>
+                            ${DIFFICULTY_LEVELS.map(level => `
+                                <option value="${level}" ${q.difficulty === level ? 'selected' : ''}>${DIFFICULTY_LABELS[level]}</option>
+                            `).join('')}
+                        </select>
+                    </div>
+                    <div>
+                        <label for="q-difficulty-score-${index}">Difficulty Score (1–10)</label>
+                        <input type="number" id="q-difficulty-score-${index}" min="1" max="10" step="1" value="${q.difficultyScore ?? ''}">
+                    </div>
+                    <div>
+                        <label for="q-tags-${index}">Tags (comma separated)</label>
+                        <input type="text" id="q-tags-${index}" value="${(q.tags ?? []).join(', ')}">
+                    </div>
+                    <div>
+                        <label for="q-marks-${index}">Marks</label>
+                        <input type="number" id="q-marks-${index}" min="0" step="0.01" placeholder="Section/test default" value="${q.marks ?? ''}">
+                    </div>
+                    <div>
+                        <label for="q-negative-${index}">Negative Marks</label>
+                        <input type="number" id="q-negative-${index}" min="0" step="0.01" placeholder="Section/test default" value="${q.negativeMarks ?? ''}">
+                    </div>
+                    <div>
+                        <label for="q-scoring-${index}">Scoring</label>
+                        <select id="q-scoring-${index}">
+                            <option value="" ${!q.scoring ? 'selected' : ''}>Normal</option>
+                            <option value="bonus" ${q.scoring === 'bonus' ? 'selected' : ''}>Bonus (full marks to all)</option>
+                            <option value="dropped" ${q.scoring === 'dropped' ? 'selected' : ''}>Dropped (not scored)</option>
+                        </select>
+                    </div>
                 </div>
                 
                 <label for="q-exp-${index}">Explanation</label>
@@ -1279,6 +4038,7 @@ editableQuestionsContainer.addEventListener('click', (e) => {
             // Update currentTest data
             // We need to sync DOM state to data first before splicing to avoid losing unsaved edits
             syncCurrentTestFromDOM(); 
+            currentTest.sections = removeFromSections(currentTest, [index]);
             currentTest.questions.splice(index, 1);
             renderEditableTest(currentTest); 
         }
@@ -1310,6 +4070,57 @@ editableQuestionsContainer.addEventListener('click', (e) => {
     }
 });
 
+// Carries the shared fields (and any format parts typed earlier) over to the new format
+function convertQuestionType(q: Question, type: QuestionType): Question {
+    const previous = q as { assertion?: string; reason?: string; listI?: string[]; listII?: string[]; statements?: string[]; passageId?: string };
+    const base: QuestionBase = { ...q };
+    switch (type) {
+        case 'assertionReason':
+            return { ...base, type, assertion: previous.assertion ?? '', reason: previous.reason ?? '', options: [...ASSERTION_REASON_OPTIONS] };
+        case 'matchFollowing':
+            return { ...base, type, listI: previous.listI ?? [], listII: previous.listII ?? [] };
+        case 'statementCount':
+            return { ...base, type, statements: previous.statements ?? [] };
+        case 'comprehension':
+            return { ...base, type, passageId: previous.passageId };
+        default:
+            return { ...base, type: 'mcq' };
+    }
+}
+
+// Switching a question's format re-renders the editor so the matching fields appear
+editableQuestionsContainer.addEventListener('change', (e) => {
+    const select = (e.target as HTMLElement).closest('.q-type-select') as HTMLSelectElement;
+    if (!select) return;
+    const item = select.closest('.editable-question-item') as HTMLElement;
+    const index = parseInt(item.dataset.questionIndex, 10);
+
+    syncCurrentTestFromDOM();
+    const converted = convertQuestionType(currentTest.questions[index], select.value as QuestionType);
+    if (converted.type === 'comprehension' && !converted.passageId) {
+        // Link to the first passage, creating an empty one if the test has none yet
+        if (!currentTest.passages?.length) {
+            currentTest.passages = [{ id: `passage_${Date.now()}`, text: '' }];
+        }
+        converted.passageId = currentTest.passages[0].id;
+    }
+    currentTest.questions[index] = converted;
+    renderEditableTest(currentTest);
+
+    const reopened = document.getElementById(`eq-${index}`);
+    if (reopened) {
+        document.querySelectorAll('.editable-question-item[open]').forEach(other => {
+            other.removeAttribute('open');
+            other.querySelector('.editable-question-body').classList.add('hidden');
+            other.querySelector('.toggle-q span').textContent = 'expand_more';
+        });
+        reopened.setAttribute('open', '');
+        reopened.querySelector('.editable-question-body').classList.remove('hidden');
+        reopened.querySelector('.toggle-q span').textContent = 'expand_less';
+        reopened.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+});
+
 // Helper to save state from DOM to currentTest object without saving to LocalStorage yet
 function syncCurrentTestFromDOM() {
     if (!currentTest) return;
@@ -1323,20 +4134,95 @@ function syncCurrentTestFromDOM() {
         const explanationText = (form.querySelector(`#q-exp-${index}`) as HTMLTextAreaElement).value;
         const subjectText = (form.querySelector(`#q-subject-${index}`) as HTMLInputElement).value;
         const topicText = (form.querySelector(`#q-topic-${index}`) as HTMLInputElement).value;
+        const difficulty = (form.querySelector(`#q-difficulty-${index}`) as HTMLSelectElement).value;
+        const syllabusNodeId = (form.querySelector(`#q-syllabus-${index}`) as HTMLSelectElement).value;
+        const difficultyScore = parseInt((form.querySelector(`#q-difficulty-score-${index}`) as HTMLInputElement).value, 10);
+        const tags = toStringList((form.querySelector(`#q-tags-${index}`) as HTMLInputElement).value.split(','));
+        const scoring = (form.querySelector(`#q-scoring-${index}`) as HTMLSelectElement).value;
         const answer = parseInt((form.querySelector(`input[name="q-answer-${index}"]:checked`) as HTMLInputElement)?.value ?? '0');
         
         const options = Array.from(form.querySelectorAll('.option-item input[type="text"]')).map(input => (input as HTMLInputElement).value);
         
-        updatedQuestions.push({
+        updatedQuestions.push(tagQuestion(readQuestionTypeFields(form, index, {
+            ...currentTest.questions[index], // Keep fields the editor doesn't expose (e.g. sourcePage)
             question: questionText,
             options,
             answer,
             explanation: explanationText,
             subject: subjectText,
-            topic: topicText
-        });
+            topic: topicText,
+            difficulty: isDifficulty(difficulty) ? difficulty : undefined,
+            difficultyScore: Number.isFinite(difficultyScore) ? Math.min(10, Math.max(1, difficultyScore)) : undefined,
+            syllabusNodeId: syllabusNodeId || undefined,
+            syllabusOverride: syllabusNodeId ? true : undefined,
+            tags,
+            marks: parseMarkingInput(form.querySelector(`#q-marks-${index}`)),
+            negativeMarks: parseMarkingInput(form.querySelector(`#q-negative-${index}`)),
+            scoring: scoring === 'bonus' || scoring === 'dropped' ? scoring : undefined
+        })));
     });
     currentTest.questions = updatedQuestions;
+
+    const sectionItems = Array.from(editableSectionsContainer.querySelectorAll('.editable-section-item'));
+    currentTest.sections = sectionItems.length ? sectionItems.map((item, sIndex) => {
+        const duration = parseInt((item.querySelector('.section-duration-input') as HTMLInputElement).value, 10);
+        const marks = parseMarkingInput(item.querySelector('.section-marks-input'));
+        const negative = parseMarkingInput(item.querySelector('.section-negative-input'));
+        return {
+            id: (item as HTMLElement).dataset.sectionId,
+            name: (item.querySelector('.section-name-input') as HTMLInputElement).value.trim() || `Section ${sIndex + 1}`,
+            questionCount: Math.max(0, parseInt((item.querySelector('.section-count-input') as HTMLInputElement).value, 10) || 0),
+            ...(duration > 0 ? { duration } : {}),
+            ...(marks !== undefined ? { marksPerQuestion: marks } : {}),
+            ...(negative !== undefined ? { negativeMarking: negative } : {})
+        };
+    }) : undefined;
+    currentTest.cutoffProfileId = editCutoffSelect.value && editCutoffSelect.value !== ADD_CUSTOM_CUTOFF ? editCutoffSelect.value : undefined;
+
+    const lockedInput = editableSectionsContainer.querySelector('#sections-locked-input') as HTMLInputElement;
+    currentTest.sectionLocked = currentTest.sections && (lockedInput?.checked || isSectionTimed(currentTest)) ? true : undefined;
+
+    currentTest.passages = Array.from(editablePassagesContainer.querySelectorAll('.editable-passage-item')).map(item => {
+        const title = (item.querySelector('.passage-title-input') as HTMLInputElement).value.trim();
+        return {
+            id: (item as HTMLElement).dataset.passageId,
+            text: (item.querySelector('.passage-text-input') as HTMLTextAreaElement).value,
+            ...(title ? { title } : {})
+        };
+    });
+}
+
+const ADD_CUSTOM_CUTOFF = '__custom';
+
+editCutoffSelect.addEventListener('change', () => {
+    if (editCutoffSelect.value !== ADD_CUSTOM_CUTOFF || !currentTest) return;
+    const id = addCustomCutoff();
+    editCutoffSelect.innerHTML = `${renderCutoffOptions(id ?? currentTest.cutoffProfileId, true)}<option value="${ADD_CUSTOM_CUTOFF}">Add custom cut-off…</option>`;
+});
+
+// Blank marking inputs fall back to the section or test default
+function parseMarkingInput(input: Element | null): number | undefined {
+    const value = parseFloat((input as HTMLInputElement)?.value ?? '');
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function readQuestionTypeFields(form: Element, index: number, q: Question): Question {
+    const value = (id: string) => (form.querySelector(`#${id}-${index}`) as HTMLTextAreaElement)?.value ?? '';
+    const lines = (id: string) => value(id).split('\n').map(line => line.trim()).filter(Boolean);
+    switch (q.type) {
+        case 'assertionReason':
+            return { ...q, assertion: value('q-assertion'), reason: value('q-reason') };
+        case 'matchFollowing':
+            return { ...q, listI: lines('q-list1'), listII: lines('q-list2') };
+        case 'statementCount':
+            return { ...q, statements: lines('q-statements') };
+        case 'comprehension': {
+            const { passage, ...rest } = q;
+            return { ...rest, passageId: value('q-passage') || q.passageId };
+        }
+        default:
+            return q;
+    }
 }
 
 
@@ -1344,6 +4230,8 @@ addQuestionBtn.addEventListener('click', () => {
     if (!currentTest) return;
     syncCurrentTestFromDOM(); // Save current progress
     const newQuestion: Question = {
+        type: 'mcq',
+        difficulty: 'medium',
         question: "",
         options: ["", "", "", ""],
         answer: 0,
@@ -1371,8 +4259,22 @@ addQuestionBtn.addEventListener('click', () => {
 saveTestBtn.addEventListener('click', () => {
     if (!currentTest) return;
     syncCurrentTestFromDOM();
+    currentTest = attachPassages(currentTest);
+
+    const ranges = sectionRanges(currentTest);
+    if (ranges.some(range => range.end === range.start)) {
+        showToast({ message: 'Every section needs at least one question. Adjust the counts or delete the empty section.', type: 'error' });
+        return;
+    }
+    if (ranges.some(range => range.section.duration) && !isSectionTimed(currentTest)) {
+        showToast({ message: 'Give every section a time limit, or clear them all.', type: 'error' });
+        return;
+    }
+    if (isSectionTimed(currentTest)) {
+        currentTest.duration = currentTest.sections.reduce((total, section) => total + section.duration, 0);
+    }
 
-    const tests = getFromStorage<Test[]>('tests', []);
+    const tests = loadTests();
     
     // Check if test already exists (Update mode vs Create mode)
     const existingIndex = tests.findIndex(t => t.id === currentTest.id);
@@ -1385,19 +4287,390 @@ saveTestBtn.addEventListener('click', () => {
         showToast({ message: 'Test created successfully!', type: 'success' });
     }
     
-    saveToStorage('tests', tests);
+    saveTests(tests);
     renderAllTests();
     showView(allTestsView);
 });
 
 
+// --- Duplicate Detection ---
+// Near-duplicates are found locally by comparing word 3-gram shingles of the question
+// (stem plus options) with Jaccard similarity, using an inverted index to find candidates.
+const SHINGLE_SIZE = 3;
+const DUPLICATE_THRESHOLD = 0.6;
+
+interface BankQuestionRef {
+    testId: string;
+    testName: string;
+    questionIndex: number;
+    question: Question;
+}
+
+interface SimilarityIndex {
+    refs: BankQuestionRef[];
+    shingles: Set<string>[];
+    postings: Map<string, number[]>; // shingle -> positions in refs
+}
+
+interface DuplicateMatch {
+    questionIndex: number; // Index of the flagged question in the test under review
+    match: BankQuestionRef;
+    similarity: number;
+}
+
+function questionShingles(q: Question): Set<string> {
+    const words = `${questionPlainText(q)} ${q.options.join(' ')}`
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+    const shingles = new Set<string>();
+    if (words.length < SHINGLE_SIZE) {
+        if (words.length > 0) shingles.add(words.join(' '));
+        return shingles;
+    }
+    for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+        shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+}
+
+function createSimilarityIndex(): SimilarityIndex {
+    return { refs: [], shingles: [], postings: new Map() };
+}
+
+function addToSimilarityIndex(index: SimilarityIndex, ref: BankQuestionRef) {
+    const position = index.refs.length;
+    const shingles = questionShingles(ref.question);
+    index.refs.push(ref);
+    index.shingles.push(shingles);
+    shingles.forEach(shingle => {
+        const posting = index.postings.get(shingle);
+        if (posting) posting.push(position);
+        else index.postings.set(shingle, [position]);
+    });
+}
+
+// Best match first; only matches at or above the threshold are returned
+function findSimilarQuestions(index: SimilarityIndex, q: Question, threshold = DUPLICATE_THRESHOLD): { ref: BankQuestionRef; similarity: number }[] {
+    const shingles = questionShingles(q);
+    if (shingles.size === 0) return [];
+
+    const shared = new Map<number, number>();
+    shingles.forEach(shingle => {
+        index.postings.get(shingle)?.forEach(position => shared.set(position, (shared.get(position) ?? 0) + 1));
+    });
+
+    const matches: { ref: BankQuestionRef; similarity: number }[] = [];
+    shared.forEach((count, position) => {
+        const similarity = count / (shingles.size + index.shingles[position].size - count);
+        if (similarity >= threshold) matches.push({ ref: index.refs[position], similarity });
+    });
+    return matches.sort((a, b) => b.similarity - a.similarity);
+}
+
+function buildBankIndex(excludeTestId?: string): SimilarityIndex {
+    const index = createSimilarityIndex();
+    loadTests()
+        .filter(test => test.id !== excludeTestId)
+        .forEach(test => test.questions.forEach((question, questionIndex) =>
+            addToSimilarityIndex(index, { testId: test.id, testName: test.name, questionIndex, question })
+        ));
+    return index;
+}
+
+// Checks each question of `test` against the saved bank and against the test's earlier questions
+function findDuplicatesInTest(test: Test): DuplicateMatch[] {
+    const index = buildBankIndex(test.id);
+    const duplicates: DuplicateMatch[] = [];
+    test.questions.forEach((question, questionIndex) => {
+        const [best] = findSimilarQuestions(index, question);
+        if (best) duplicates.push({ questionIndex, match: best.ref, similarity: best.similarity });
+        addToSimilarityIndex(index, { testId: test.id, testName: test.name, questionIndex, question });
+    });
+    return duplicates;
+}
+
+// Every question in the bank that closely matches an earlier one (by storage order)
+function scanBankForDuplicates(): { ref: BankQuestionRef; match: BankQuestionRef; similarity: number }[] {
+    const index = createSimilarityIndex();
+    const pairs: { ref: BankQuestionRef; match: BankQuestionRef; similarity: number }[] = [];
+    loadTests().forEach(test => {
+        test.questions.forEach((question, questionIndex) => {
+            const ref = { testId: test.id, testName: test.name, questionIndex, question };
+            const [best] = findSimilarQuestions(index, question);
+            if (best) pairs.push({ ref, match: best.ref, similarity: best.similarity });
+            addToSimilarityIndex(index, ref);
+        });
+    });
+    return pairs;
+}
+
+// --- Duplicate Review Modal ---
+// Applies the review's outcome to the latest copy of the test and returns whether it could
+type DuplicateResolver = (resolve: (current: Test) => Test | null) => boolean;
+
+interface DuplicateReview {
+    test: Test;
+    reviewed: Question[]; // The questions as they were when the review opened
+    matches: DuplicateMatch[];
+    onResolved: DuplicateResolver;
+}
+
+let duplicateReview: DuplicateReview | null = null;
+
+function renderDuplicateQuestion(label: string, q: Question): string {
+    return `
+        <div class="duplicate-question">
+            <span class="duplicate-label">${label}</span>
+            <p>${questionPlainText(q).replace(/\n/g, '<br>')}</p>
+        </div>
+    `;
+}
+
+function openDuplicateReview(test: Test, matches: DuplicateMatch[], onResolved: DuplicateResolver) {
+    duplicateReview = { test, reviewed: JSON.parse(JSON.stringify(test.questions)), matches, onResolved };
+    duplicatesModalTitle.textContent = 'Possible Duplicates';
+    duplicatesModalBody.innerHTML = `
+        <p class="duplicates-summary">${matches.length} of ${test.questions.length} question(s) in "${test.name}" closely match questions you already have. Choose which ones to drop or regenerate.</p>
+        ${matches.map(({ questionIndex, match, similarity }) => `
+            <div class="duplicate-row">
+                <label class="duplicate-select">
+                    <input type="checkbox" value="${questionIndex}" checked>
+                    <span class="similarity-badge">${Math.round(similarity * 100)}% similar</span>
+                </label>
+                <div class="duplicate-pair">
+                    ${renderDuplicateQuestion(`New • Q${questionIndex + 1}`, test.questions[questionIndex])}
+                    ${renderDuplicateQuestion(`${match.testId === test.id ? 'Same test' : match.testName} • Q${match.questionIndex + 1}`, match.question)}
+                </div>
+            </div>
+        `).join('')}
+    `;
+    duplicatesModalActions.innerHTML = `
+        <button class="action-btn" data-duplicate-action="keep">
+            <span class="material-symbols-outlined">done_all</span> Keep All
+        </button>
+        <button class="action-btn danger-btn" data-duplicate-action="drop">
+            <span class="material-symbols-outlined">delete_sweep</span> Drop Selected
+        </button>
+        ${ai ? `
+            <button class="action-btn save-btn" data-duplicate-action="regenerate">
+                <span class="material-symbols-outlined">autorenew</span> Regenerate Selected
+            </button>
+        ` : ''}
+    `;
+    duplicatesModal.classList.remove('hidden');
+}
+
+function closeDuplicatesModal() {
+    duplicatesModal.classList.add('hidden');
+    duplicateReview = null;
+}
+
+function selectedDuplicateIndexes(): number[] {
+    return Array.from(duplicatesModalBody.querySelectorAll('.duplicate-select input:checked'))
+        .map(input => parseInt((input as HTMLInputElement).value, 10));
+}
+
+function dropQuestions(test: Test, indexes: number[]): Test {
+    const dropped = new Set(indexes);
+    return attachPassages({ ...test, questions: test.questions.filter((_, i) => !dropped.has(i)), sections: removeFromSections(test, indexes) });
+}
+
+// Replaces and drops questions in the current copy of a reviewed test. The review worked on the
+// questions as they were when it opened, so if any affected question has since been edited, moved
+// or removed the outcome no longer fits and null is returned.
+function applyDuplicateResolution(current: Test, reviewed: Question[], replacements: Map<number, Question>, drop: number[]): Test | null {
+    const affected = [...replacements.keys(), ...drop];
+    if (affected.some(i => !current.questions[i] || !sameContent(current.questions[i], reviewed[i]))) return null;
+    return dropQuestions({ ...current, questions: current.questions.map((q, i) => replacements.get(i) ?? q) }, drop);
+}
+
+// Asks for one fresh question per flagged slot (same subject, topic, format and difficulty).
+// Replacements that are not themselves duplicates are returned by index; the other slots are to be dropped.
+async function regenerateDuplicates(test: Test, indexes: number[]): Promise<{ replacements: Map<number, Question>; unresolved: number[] }> {
+    const flagged = indexes.map(i => test.questions[i]);
+    const types = Array.from(new Set(flagged.map(q => q.type ?? 'mcq')));
+    const avoid = duplicateReview?.matches
+        .filter(m => indexes.includes(m.questionIndex))
+        .map(m => m.match.question) ?? [];
+    const prompt = `Generate ${flagged.length} UPSC-style multiple-choice questions in ${test.language}, one for each line below, on the same subject, topic, format and difficulty but testing a different fact or concept:
+${flagged.map((q, n) => `${n + 1}. ${q.subject} > ${q.topic} (type "${q.type ?? 'mcq'}", ${q.difficulty ?? 'medium'})`).join('\n')}
+
+They must not repeat or paraphrase any of these existing questions:
+${[...flagged, ...avoid].map(q => `- ${questionPlainText(q)}`).join('\n')}
+
+For each question, provide the question, the options, the 0-indexed correct answer, a detailed explanation, the general subject, the specific topic and the difficulty.
+
+${questionFormatInstructions(types)}`;
+
+    const replacements = (await requestQuestions(prompt)).map(tagQuestion);
+    const index = buildBankIndex(test.id);
+    test.questions.forEach((question, questionIndex) => {
+        if (!indexes.includes(questionIndex)) addToSimilarityIndex(index, { testId: test.id, testName: test.name, questionIndex, question });
+    });
+
+    const accepted = new Map<number, Question>();
+    const unresolved: number[] = [];
+    indexes.forEach((questionIndex, n) => {
+        const replacement = replacements[n];
+        if (replacement && findSimilarQuestions(index, replacement).length === 0) {
+            accepted.set(questionIndex, replacement);
+            addToSimilarityIndex(index, { testId: test.id, testName: test.name, questionIndex, question: replacement });
+        } else {
+            unresolved.push(questionIndex);
+        }
+    });
+    return { replacements: accepted, unresolved };
+}
+
+const showStaleDuplicateToast = () =>
+    showToast({ message: 'The test changed while its duplicates were being reviewed, so the review was not applied. Run the check again if needed.', type: 'warning', duration: 6000 });
+
+async function handleDuplicateAction(action: string) {
+    if (!duplicateReview) return;
+    const review = duplicateReview;
+    const { test, reviewed, matches, onResolved } = review;
+    const selected = selectedDuplicateIndexes();
+
+    if (action === 'keep' || selected.length === 0) {
+        closeDuplicatesModal();
+        return;
+    }
+
+    if (action === 'drop') {
+        if (onResolved(current => applyDuplicateResolution(current, reviewed, new Map(), selected))) {
+            showToast({ message: `Dropped ${selected.length} duplicate question(s).`, type: 'success' });
+        } else {
+            showStaleDuplicateToast();
+        }
+        closeDuplicatesModal();
+        return;
+    }
+
+    if (action === 'regenerate') {
+        const buttons = duplicatesModalActions.querySelectorAll('button');
+        buttons.forEach(btn => (btn as HTMLButtonElement).disabled = true);
+        const regenerateBtn = duplicatesModalActions.querySelector('[data-duplicate-action="regenerate"]');
+        regenerateBtn.innerHTML = `<div class="spinner-small"></div> Regenerating...`;
+        try {
+            const { replacements, unresolved } = await regenerateDuplicates({ ...test, questions: reviewed }, selected);
+            if (onResolved(current => applyDuplicateResolution(current, reviewed, replacements, unresolved))) {
+                showToast({
+                    message: `Replaced ${replacements.size} question(s).${unresolved.length ? ` ${unresolved.length} replacement(s) were still too similar and were dropped.` : ''}`,
+                    type: unresolved.length ? 'warning' : 'success'
+                });
+            } else {
+                showStaleDuplicateToast();
+            }
+            // The modal may have been closed, or another review opened, while the request ran
+            if (duplicateReview === review) closeDuplicatesModal();
+        } catch (error) {
+            console.error("Error regenerating duplicates:", error);
+            showToast({ message: `Failed to regenerate questions. ${error.message}`, type: 'error' });
+            if (duplicateReview === review) openDuplicateReview(test, matches, onResolved);
+        }
+    }
+}
+
+// Opens the review for a freshly generated (unsaved) test that is shown in the editor
+function reviewDuplicatesInEditor() {
+    if (!currentTest) return;
+    const matches = findDuplicatesInTest(currentTest);
+    if (matches.length === 0) return;
+    const testId = currentTest.id;
+    openDuplicateReview(currentTest, matches, resolve => {
+        // The editor may have moved on to another test while the review was open
+        const updated = currentTest?.id === testId && !editTestView.classList.contains('hidden') ? resolve(currentTest) : null;
+        if (!updated) return false;
+        currentTest = updated;
+        renderEditableTest(currentTest);
+        return true;
+    });
+}
+
+// Opens the review for a test that has already been saved (imports)
+function reviewDuplicatesInSavedTest(test: Test) {
+    const matches = findDuplicatesInTest(test);
+    if (matches.length === 0) return;
+    openDuplicateReview(test, matches, resolve => {
+        const tests = loadTests();
+        const index = tests.findIndex(t => t.id === test.id);
+        const updated = index > -1 ? resolve(tests[index]) : null;
+        if (!updated) return false;
+        tests[index] = updated;
+        saveTests(tests);
+        if (!allTestsView.classList.contains('hidden')) renderAllTests();
+        return true;
+    });
+}
+
+function renderBankDuplicateScan() {
+    const pairs = scanBankForDuplicates();
+    duplicateReview = null;
+    duplicatesModalTitle.textContent = 'Duplicate Questions in Your Tests';
+    duplicatesModalBody.innerHTML = pairs.length === 0
+        ? `<p class="placeholder">No near-duplicate questions found across your saved tests.</p>`
+        : `
+            <p class="duplicates-summary">Found ${pairs.length} question(s) that closely match an earlier question. Delete the copy you don't need.</p>
+            ${pairs.map(({ ref, match, similarity }) => `
+                <div class="duplicate-row">
+                    <span class="similarity-badge">${Math.round(similarity * 100)}% similar</span>
+                    <div class="duplicate-pair">
+                        ${[ref, match].map(side => `
+                            <div>
+                                ${renderDuplicateQuestion(`${side.testName} • Q${side.questionIndex + 1}`, side.question)}
+                                <button class="action-btn danger-btn delete-duplicate-btn" data-test-id="${side.testId}" data-question-index="${side.questionIndex}">
+                                    <span class="material-symbols-outlined">delete</span> Delete this copy
+                                </button>
+                            </div>
+                        `).join('')}
+                    </div>
+                </div>
+            `).join('')}
+        `;
+    duplicatesModalActions.innerHTML = `
+        <button class="action-btn" data-duplicate-action="keep">
+            <span class="material-symbols-outlined">close</span> Close
+        </button>
+    `;
+    duplicatesModal.classList.remove('hidden');
+}
+
+findDuplicatesBtn.addEventListener('click', renderBankDuplicateScan);
+
+duplicatesModalActions.addEventListener('click', e => {
+    const button = (e.target as HTMLElement).closest('[data-duplicate-action]') as HTMLElement;
+    if (button) handleDuplicateAction(button.dataset.duplicateAction);
+});
+
+duplicatesModalBody.addEventListener('click', e => {
+    const button = (e.target as HTMLElement).closest('.delete-duplicate-btn') as HTMLElement;
+    if (!button) return;
+    const tests = loadTests();
+    const test = tests.find(t => t.id === button.dataset.testId);
+    const questionIndex = parseInt(button.dataset.questionIndex, 10);
+    if (!test || !confirm(`Delete question ${questionIndex + 1} from "${test.name}"?`)) return;
+
+    tests[tests.indexOf(test)] = dropQuestions(test, [questionIndex]);
+    saveTests(tests);
+    showToast({ message: 'Question deleted.', type: 'success' });
+    renderAllTests();
+    renderBankDuplicateScan(); // Indexes shift after a deletion, so rescan
+});
+
+closeDuplicatesModalBtn.addEventListener('click', closeDuplicatesModal);
+duplicatesModal.addEventListener('click', e => {
+    if (e.target === duplicatesModal) closeDuplicatesModal();
+});
+
+
 // --- All Tests & Test Detail Logic ---
 let filteredTests: Test[] = [];
 let currentSearchQuery = '';
 let currentSortOption = 'newest';
 
 function renderAllTests() {
-    const tests = getFromStorage<Test[]>('tests', []);
+    const tests = loadTests();
     
     // Render stats overview
     const testsStatsOverview = document.getElementById('tests-stats-overview');
@@ -1512,7 +4785,7 @@ function renderAllTests() {
                     <span class="material-symbols-outlined">school</span> ${test.language}
                  </div>
                  <div class="stat-pill">
-                    <span class="material-symbols-outlined">star</span> ${test.marksPerQuestion} marks
+                    <span class="material-symbols-outlined">star</span> ${hasMixedMarking(test) ? 'Mixed marking' : `${test.marksPerQuestion} marks`}
                  </div>
             </div>
             <div class="test-card-actions">
@@ -1574,16 +4847,16 @@ function handleDownloadTest(test: Test) {
 
 function handleDeleteTest(testId: string) {
     if (confirm("Are you sure you want to delete this test?")) {
-        let tests = getFromStorage<Test[]>('tests', []);
+        let tests = loadTests();
         tests = tests.filter(t => t.id !== testId);
-        saveToStorage('tests', tests);
+        if (saveTests(tests)) pruneQuestionBank();
         renderAllTests(); // Re-render the list
     }
 }
 
 function handleEditTest(test: Test) {
     // Deep copy to ensure we don't mutate state unless saved
-    currentTest = JSON.parse(JSON.stringify(test));
+    currentTest = attachPassages(JSON.parse(JSON.stringify(test)));
     renderEditableTest(currentTest);
     showView(editTestView);
 }
@@ -1613,21 +4886,26 @@ function handleImportTest(event: Event) {
                 throw new Error("Invalid test file format. The file must contain a name, duration, and questions array.");
             }
 
-            const newTest: Test = {
+            const newTest: Test = attachPassages({
                 ...importedData,
+                questions: importedData.questions.map(normalizeQuestion).map(tagQuestion),
+                passages: Array.isArray(importedData.passages)
+                    ? importedData.passages.filter(p => typeof p?.id === 'string' && typeof p?.text === 'string')
+                    : [],
                 id: `test_${Date.now()}`, // Assign a new unique ID
                 name: `${importedData.name} (Imported)`, // Mark as imported
                 createdAt: new Date().toISOString(), // Set new creation date
                 marksPerQuestion: importedData.marksPerQuestion || 1, // Default to 1 if missing in import
                 negativeMarking: importedData.negativeMarking || 0
-            };
+            });
 
-            const tests = getFromStorage<Test[]>('tests', []);
+            const tests = loadTests();
             tests.unshift(newTest);
-            saveToStorage('tests', tests);
+            saveTests(tests);
 
             showToast({ message: `Test "${newTest.name}" imported successfully!`, type: 'success' });
             renderAllTests();
+            reviewDuplicatesInSavedTest(newTest);
 
         } catch (error) {
             console.error("Error importing test:", error);
@@ -1653,13 +4931,13 @@ allTestsContainer.addEventListener('click', e => {
     if (!testItem) return;
 
     const testId = testItem.dataset.testid;
-    const tests = getFromStorage<Test[]>('tests', []);
+    const tests = loadTests();
     const test = tests.find(t => t.id === testId);
     if (!test) return;
 
     // Handle clicks on specific buttons
     if (target.closest('.start-btn')) {
-        startTest(test);
+        openStartTestModal(test);
     } else if (target.closest('.download-test-btn')) {
         handleDownloadTest(test);
     } else if (target.closest('.delete-btn')) {
@@ -1675,65 +4953,518 @@ allTestsContainer.addEventListener('click', e => {
     }
 });
 
-function renderTestDetail(test: Test) {
-    currentTest = test;
-    testDetailTitle.textContent = test.name;
-    testDetailContainer.innerHTML = test.questions.map((q, index) => `
-        <div class="test-detail-item">
-            <div class="question-header">
-                <p>Question ${index + 1}</p>
-                <span class="question-meta">${q.subject} > ${q.topic}</span>
-            </div>
-            <p>${q.question}</p>
-            <ul class="detail-options">
-                ${q.options.map((opt, optIndex) => `
-                    <li class="detail-option-item ${q.answer === optIndex ? 'correct' : ''}">${opt}</li>
-                `).join('')}
-            </ul>
+function renderTestDetail(test: Test) {
+    currentTest = test;
+    testDetailTitle.textContent = test.name;
+    const provenanceHTML = test.provenance ? `
+        <div class="test-provenance">
+            <span class="material-symbols-outlined">menu_book</span>
+            <span>${formatProvenance(test.provenance)}</span>
+        </div>
+    ` : '';
+    const ranges = sectionRanges(test);
+    const sectionsHTML = ranges.length ? `
+        <div class="test-provenance">
+            <span class="material-symbols-outlined">view_agenda</span>
+            <span>${ranges.map(range => `${range.section.name} (Q${range.start + 1}–${range.end}${range.section.duration ? `, ${range.section.duration} min` : ''})`).join(' • ')}${test.sectionLocked ? ' • Section-locked' : ''}</span>
+        </div>
+    ` : '';
+    const shownPassages = new Set<string>();
+    const revisions = loadKeyRevisions();
+    testDetailContainer.innerHTML = provenanceHTML + sectionsHTML + test.questions.map((q, index) => `
+        ${renderPassageGroupHeader(test, q, shownPassages)}
+        <div class="test-detail-item">
+            <div class="question-header">
+                <p>Question ${index + 1}${q.scoring ? ` <span class="marks-badge">${q.scoring === 'bonus' ? 'Bonus' : 'Dropped'}</span>` : ''}</p>
+                <span class="question-meta">${q.subject} > ${q.topic}${q.sourcePage ? ` • p. ${q.sourcePage}` : ''}${q.type && q.type !== 'mcq' ? ` • ${QUESTION_TYPE_LABELS[q.type]}` : ''}${q.difficulty ? ` • ${DIFFICULTY_LABELS[q.difficulty]}` : ''}</span>
+            </div>
+            ${renderQuestionStem(q, test, false)}
+            <ul class="detail-options">
+                ${q.options.map((opt, optIndex) => `
+                    <li class="detail-option-item ${q.answer === optIndex ? 'correct' : ''}">${opt}</li>
+                `).join('')}
+            </ul>
+            <div class="explanation-box">
+                <h4>Explanation</h4>
+                <p>${q.explanation}</p>
+            </div>
+            ${renderKeyRevisionHistory(revisions.filter(revision => revision.questionId === q.id))}
+            <div class="notebook-controls">
+                <button class="revise-key-btn" data-question-index="${index}" title="Correct the answer key and re-score past attempts">
+                    <span class="material-symbols-outlined">gavel</span> Revise Key
+                </button>
+            </div>
+        </div>
+    `).join('');
+}
+
+testDetailActions.addEventListener('click', e => {
+    if (!currentTest) return;
+    const target = e.target as HTMLElement;
+
+    if (target.closest('#start-test-btn')) {
+        openStartTestModal(currentTest);
+    }
+    if (target.closest('#delete-test-btn')) {
+        if (confirm(`Are you sure you want to delete the test "${currentTest.name}"? This action cannot be undone.`)) {
+            let tests = loadTests();
+            tests = tests.filter(t => t.id !== currentTest.id);
+            if (!saveTests(tests)) return;
+            pruneQuestionBank();
+            showToast({ message: 'Test deleted.', type: 'success' });
+            renderAllTests();
+            showView(allTestsView);
+        }
+    }
+});
+
+// --- Start Test Modal ---
+let testToStart: Test | null = null;
+
+function openStartTestModal(test: Test) {
+    testToStart = test;
+    startTestModalTitle.textContent = `Start "${test.name}"`;
+    startTestModal.classList.remove('hidden');
+}
+
+function closeStartTestModal() {
+    startTestModal.classList.add('hidden');
+    testToStart = null;
+}
+
+startTestModal.addEventListener('change', e => {
+    if ((e.target as HTMLInputElement).name === 'attempt-mode') {
+        const mode = (startTestModal.querySelector('input[name="attempt-mode"]:checked') as HTMLInputElement).value;
+        practiceTimerOptions.classList.toggle('hidden', mode !== 'practice');
+        strictModeOptions.classList.toggle('hidden', mode === 'practice');
+    }
+});
+
+confirmStartTestBtn.addEventListener('click', () => {
+    if (!testToStart) return;
+    const mode = (startTestModal.querySelector('input[name="attempt-mode"]:checked') as HTMLInputElement).value as AttemptMode;
+    const test = testToStart;
+    closeStartTestModal();
+    startTest(test, mode === 'practice'
+        ? { mode, timer: practiceTimerSelect.value as TimerMode }
+        : { mode, timer: 'countDown', ...(strictModeCheckbox.checked ? { strict: true } : {}) });
+});
+
+closeStartTestModalBtn.addEventListener('click', closeStartTestModal);
+startTestModal.addEventListener('click', e => {
+    if (e.target === startTestModal) closeStartTestModal();
+});
+
+// --- Test Attempt Logic ---
+function startTest(test: Test, options: AttemptOptions = { mode: 'exam', timer: 'countDown' }) {
+    currentTest = test;
+    attemptOptions = options;
+    activeAttemptId = createId('attempt');
+    attemptStartedAt = new Date().toISOString();
+    attemptPaused = false;
+    currentQuestionIndex = 0;
+    userAnswers = Array(test.questions.length).fill(null);
+    questionStatuses = Array(test.questions.length).fill('notVisited');
+    questionStatuses[0] = 'notAnswered';
+    checkedQuestions = Array(test.questions.length).fill(false);
+    confidenceLevels = Array(test.questions.length).fill(null);
+    eliminatedOptions = test.questions.map(() => []);
+    const ranges = sectionRanges(test);
+    sectionTimeUsed = Array(ranges.length).fill(0);
+    // With sectional timing the countdown runs per section, starting with the first
+    timeRemaining = (sectionalTiming() ? ranges[0].section.duration : test.duration) * 60;
+    elapsedSeconds = 0;
+    attemptEvents = [];
+    attemptIdle = false;
+    logEvent('start', undefined, 0);
+    integrityEvents = [];
+    currentFocusLoss = null;
+    currentFullscreenExit = null;
+    if (attemptOptions.strict) enterFullscreen();
+
+    showAttemptView();
+    startTimer();
+    saveAttemptCheckpoint();
+}
+
+// Shared by startTest and resumeAttempt once the attempt state is in place
+function showAttemptView() {
+    attemptTestTitle.textContent = attemptOptions.mode === 'practice' ? `${currentTest.name} (Practice)` : currentTest.name;
+    attemptTimer.classList.toggle('hidden', attemptOptions.timer === 'off');
+    pauseTestBtn.classList.toggle('hidden', attemptOptions.mode !== 'practice');
+    pauseOverlay.classList.toggle('hidden', !attemptPaused);
+    testAttemptView.classList.toggle('strict-mode', !!attemptOptions.strict);
+    timeLeftEl.textContent = formatClock(attemptOptions.timer === 'countDown' ? timeRemaining : elapsedSeconds);
+
+    renderQuestionForAttempt();
+    updatePalette();
+    showView(testAttemptView);
+}
+
+// --- Attempt Checkpoints ---
+// The running attempt is saved to 'activeAttempts' on every interaction and every few seconds,
+// so a reload or crash can resume it. A running exam countdown is stored as a wall-clock deadline.
+interface AttemptCheckpoint {
+    id: string;
+    test: Test;
+    options: AttemptOptions;
+    currentQuestionIndex: number;
+    userAnswers: (number | null)[];
+    questionStatuses: QuestionStatus[];
+    checkedQuestions: boolean[];
+    timeRemaining: number;
+    elapsedSeconds: number;
+    sectionTimeUsed?: number[];
+    confidence?: (Confidence | null)[];
+    eliminations?: number[][];
+    events: AttemptEvent[];
+    integrityEvents?: IntegrityEvent[];
+    endsAt?: string;
+    paused: boolean;
+    startedAt: string;
+    savedAt: string;
+}
+
+type ActiveAttempts = Record<string, AttemptCheckpoint>;
+
+const CHECKPOINT_INTERVAL_SECONDS = 5;
+
+function saveAttemptCheckpoint() {
+    if (!currentTest || !activeAttemptId) return;
+    syncTimerClock();
+
+    // The current question's selection isn't committed until navigation, so include it here
+    const selected = questionContentContainer.querySelector('input[name="option"]:checked') as HTMLInputElement;
+    const answers = [...userAnswers];
+    answers[currentQuestionIndex] = selected ? parseInt(selected.value, 10) : null;
+
+    const running = attemptOptions.timer === 'countDown' && !attemptPaused;
+    const attempts = getFromStorage<ActiveAttempts>('activeAttempts', {});
+    attempts[activeAttemptId] = {
+        id: activeAttemptId,
+        test: currentTest,
+        options: attemptOptions,
+        currentQuestionIndex,
+        userAnswers: answers,
+        questionStatuses,
+        checkedQuestions,
+        timeRemaining,
+        elapsedSeconds,
+        sectionTimeUsed,
+        confidence: confidenceLevels,
+        eliminations: eliminatedOptions,
+        events: attemptEvents,
+        ...(attemptOptions.strict ? { integrityEvents } : {}),
+        ...(running ? { endsAt: new Date(Date.now() + timeRemaining * 1000).toISOString() } : {}),
+        paused: attemptPaused,
+        startedAt: attemptStartedAt,
+        savedAt: new Date().toISOString()
+    };
+    saveToStorage('activeAttempts', attempts);
+}
+
+function discardAttemptCheckpoint(id: string | null = activeAttemptId) {
+    if (!id) return;
+    const attempts = getFromStorage<ActiveAttempts>('activeAttempts', {});
+    delete attempts[id];
+    saveToStorage('activeAttempts', attempts);
+    if (id === activeAttemptId) activeAttemptId = null;
+}
+
+function resumeAttempt(checkpoint: AttemptCheckpoint) {
+    currentTest = checkpoint.test;
+    attemptOptions = checkpoint.options;
+    activeAttemptId = checkpoint.id;
+    attemptStartedAt = checkpoint.startedAt;
+    attemptPaused = checkpoint.paused;
+    currentQuestionIndex = checkpoint.currentQuestionIndex;
+    userAnswers = [...checkpoint.userAnswers];
+    questionStatuses = [...checkpoint.questionStatuses];
+    checkedQuestions = [...checkpoint.checkedQuestions];
+    elapsedSeconds = checkpoint.elapsedSeconds;
+    sectionTimeUsed = [...(checkpoint.sectionTimeUsed ?? [])];
+    confidenceLevels = checkpoint.confidence ? [...checkpoint.confidence] : Array(currentTest.questions.length).fill(null);
+    eliminatedOptions = checkpoint.eliminations ? checkpoint.eliminations.map(list => [...list]) : currentTest.questions.map(() => []);
+    attemptEvents = [...(checkpoint.events ?? [[0, 'start', checkpoint.currentQuestionIndex]])];
+    attemptIdle = false;
+    integrityEvents = [...(checkpoint.integrityEvents ?? [])];
+    currentFocusLoss = null;
+    currentFullscreenExit = null;
+    // The time the page was closed counts as a pause in the log
+    if (!attemptPaused) logEvent('pause', undefined, currentQuestionIndex, new Date(checkpoint.savedAt).getTime());
+    // A countdown keeps running while the page is closed, like the clock in an exam hall
+    timeRemaining = checkpoint.endsAt
+        ? Math.round((new Date(checkpoint.endsAt).getTime() - Date.now()) / 1000)
+        : checkpoint.timeRemaining;
+    if (sectionalTiming()) {
+        // Sections whose time ran out meanwhile are closed in turn, carrying the overrun into the next
+        const ranges = sectionRanges(currentTest);
+        let current = sectionIndexFor(ranges, currentQuestionIndex);
+        let next = nextSectionIndex(ranges, current);
+        let sectionEndedAt = new Date(checkpoint.endsAt).getTime();
+        while (timeRemaining <= 0 && next !== -1) {
+            sectionTimeUsed[current] = ranges[current].section.duration * 60;
+            timeRemaining += ranges[next].section.duration * 60;
+            currentQuestionIndex = ranges[next].start;
+            logEvent('section', undefined, currentQuestionIndex, sectionEndedAt);
+            sectionEndedAt += ranges[next].section.duration * 60 * 1000;
+            if (questionStatuses[currentQuestionIndex] === 'notVisited') questionStatuses[currentQuestionIndex] = 'notAnswered';
+            current = next;
+            next = nextSectionIndex(ranges, current);
+        }
+    }
+    timeRemaining = Math.max(0, timeRemaining);
+    if (!attemptPaused) logEvent('resume');
+
+    showAttemptView();
+    if (attemptOptions.timer === 'countDown' && timeRemaining <= 0) {
+        showToast({ title: 'Time\'s Up!', message: 'Time ran out while you were away. Your saved answers have been submitted.', type: 'warning' });
+        handleSubmitTest();
+        return;
+    }
+    if (!attemptPaused) startTimer();
+    // Fullscreen needs a click, so a resumed strict attempt waits behind the overlay
+    if (attemptOptions.strict && !document.fullscreenElement) strictOverlay.classList.remove('hidden');
+    saveAttemptCheckpoint();
+}
+
+function renderResumeList() {
+    const checkpoints = Object.values(getFromStorage<ActiveAttempts>('activeAttempts', {}))
+        .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
+
+    resumeBanner.classList.toggle('hidden', checkpoints.length === 0);
+    resumeBannerText.textContent = checkpoints.length === 1
+        ? `You have an unfinished test: ${checkpoints[0].test.name}`
+        : `You have ${checkpoints.length} unfinished tests.`;
+
+    resumeAttemptsList.innerHTML = checkpoints.map(checkpoint => {
+        const answered = checkpoint.userAnswers.filter(a => a !== null).length;
+        const clock = checkpoint.options.timer !== 'countDown'
+            ? `${formatClock(checkpoint.elapsedSeconds)} elapsed`
+            : checkpoint.endsAt
+                ? `${formatClock(Math.max(0, Math.round((new Date(checkpoint.endsAt).getTime() - Date.now()) / 1000)))} left`
+                : `${formatClock(checkpoint.timeRemaining)} left`;
+        return `
+            <div class="resume-attempt-item" data-attempt-id="${checkpoint.id}">
+                <div class="resume-attempt-info">
+                    <strong>${checkpoint.test.name}</strong>
+                    <span>
+                        ${checkpoint.options.mode === 'practice' ? 'Practice' : 'Exam'}${checkpoint.options.strict ? ' • Strict' : ''}${checkpoint.paused ? ' • Paused' : ''} •
+                        ${answered}/${checkpoint.test.questions.length} answered • ${clock} •
+                        saved ${new Date(checkpoint.savedAt).toLocaleString()}
+                    </span>
+                </div>
+                <div class="resume-attempt-actions">
+                    <button class="action-btn danger-btn discard-attempt-btn">
+                        <span class="material-symbols-outlined">delete</span> Discard
+                    </button>
+                    <button class="action-btn save-btn resume-attempt-btn">
+                        <span class="material-symbols-outlined">play_arrow</span> Resume
+                    </button>
+                </div>
+            </div>
+        `;
+    }).join('');
+    return checkpoints.length;
+}
+
+function promptResumeAttempts() {
+    if (renderResumeList() > 0) resumeModal.classList.remove('hidden');
+}
+
+resumeAttemptsList.addEventListener('click', e => {
+    const target = e.target as HTMLElement;
+    const item = target.closest('.resume-attempt-item') as HTMLElement;
+    if (!item) return;
+    const checkpoint = getFromStorage<ActiveAttempts>('activeAttempts', {})[item.dataset.attemptId];
+    if (!checkpoint) return;
+
+    if (target.closest('.resume-attempt-btn')) {
+        resumeModal.classList.add('hidden');
+        resumeAttempt(checkpoint);
+    } else if (target.closest('.discard-attempt-btn')) {
+        if (!confirm(`Discard your unfinished attempt of "${checkpoint.test.name}"? Your answers will be lost.`)) return;
+        discardAttemptCheckpoint(checkpoint.id);
+        if (renderResumeList() === 0) resumeModal.classList.add('hidden');
+    }
+});
+
+resumeBanner.addEventListener('click', promptResumeAttempts);
+closeResumeModalBtn.addEventListener('click', () => resumeModal.classList.add('hidden'));
+resumeModal.addEventListener('click', e => {
+    if (e.target === resumeModal) resumeModal.classList.add('hidden');
+});
+
+// A restored session lands straight on the main view, so offer unfinished attempts now
+if (!mainView.classList.contains('hidden')) promptResumeAttempts();
+
+// Selections are checkpointed straight away; leaving the page saves the latest timings
+questionContentContainer.addEventListener('change', () => {
+    recordAnswerChange();
+    saveAttemptCheckpoint();
+});
+document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden' && !testAttemptView.classList.contains('hidden')) saveAttemptCheckpoint();
+});
+window.addEventListener('pagehide', () => {
+    if (!testAttemptView.classList.contains('hidden')) saveAttemptCheckpoint();
+});
+
+// --- Pausing (practice only) ---
+function pauseAttempt() {
+    if (attemptOptions.mode !== 'practice' || attemptPaused) return;
+    stopTimer();
+    logEvent('pause');
+    attemptPaused = true;
+    pauseOverlay.classList.remove('hidden');
+    saveAttemptCheckpoint();
+}
+
+function continueAttempt() {
+    if (!attemptPaused) return;
+    attemptPaused = false;
+    logEvent('resume');
+    pauseOverlay.classList.add('hidden');
+    startTimer();
+    saveAttemptCheckpoint();
+}
+
+pauseTestBtn.addEventListener('click', pauseAttempt);
+resumePausedBtn.addEventListener('click', continueAttempt);
+exitPausedBtn.addEventListener('click', () => {
+    saveAttemptCheckpoint();
+    currentTest = null;
+    activeAttemptId = null;
+    pauseOverlay.classList.add('hidden');
+    showView(mainView);
+    showToast({ message: 'Practice saved. Resume it any time from the home screen.', type: 'info' });
+});
+
+// --- Strict Exam Mode ---
+const INTEGRITY_LABELS: Record<IntegrityEventType, string> = {
+    fullscreenExit: 'Left fullscreen',
+    tabHidden: 'Switched tab or app',
+    windowBlur: 'Window lost focus',
+    copy: 'Tried to copy',
+    contextMenu: 'Tried to right-click'
+};
+
+let integrityEvents: IntegrityEvent[] = [];
+let currentFocusLoss: { event: IntegrityEvent; since: number } | null = null;
+let currentFullscreenExit: { event: IntegrityEvent; since: number } | null = null;
+
+const strictAttemptActive = () => !!currentTest && !!attemptOptions.strict && !testAttemptView.classList.contains('hidden');
+
+function recordIntegrityEvent(type: IntegrityEventType): IntegrityEvent {
+    const event: IntegrityEvent = { type, questionIndex: currentQuestionIndex, at: roundSeconds(eventTime() / 10) };
+    integrityEvents.push(event);
+    return event;
+}
+
+function closeIntegrityEvent(open: { event: IntegrityEvent; since: number }) {
+    open.event.duration = roundSeconds((Date.now() - open.since) / 1000);
+    saveAttemptCheckpoint();
+}
+
+function enterFullscreen() {
+    if (!document.documentElement.requestFullscreen) {
+        strictOverlay.classList.add('hidden');
+        showToast({ message: 'Fullscreen is not available in this browser. Focus changes are still recorded.', type: 'warning' });
+        return;
+    }
+    document.documentElement.requestFullscreen()
+        .then(() => strictOverlay.classList.add('hidden'))
+        .catch(() => showToast({ message: 'Could not enter fullscreen. Use the button to try again.', type: 'warning' }));
+}
+
+// Called when the attempt ends; the fullscreenchange this triggers fires after currentTest is cleared
+function endStrictMode() {
+    currentFocusLoss = null;
+    currentFullscreenExit = null;
+    strictOverlay.classList.add('hidden');
+    testAttemptView.classList.remove('strict-mode');
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+}
+
+document.addEventListener('fullscreenchange', () => {
+    if (!strictAttemptActive()) return;
+    if (!document.fullscreenElement) {
+        currentFullscreenExit = { event: recordIntegrityEvent('fullscreenExit'), since: Date.now() };
+        strictOverlay.classList.remove('hidden');
+        saveAttemptCheckpoint();
+    } else if (currentFullscreenExit) {
+        closeIntegrityEvent(currentFullscreenExit);
+        currentFullscreenExit = null;
+    }
+});
+
+// Switching tabs fires blur before visibilitychange, so a blur followed by hiding counts once, as a tab switch
+function startFocusLoss(type: 'tabHidden' | 'windowBlur') {
+    if (!strictAttemptActive()) return;
+    if (currentFocusLoss) {
+        if (type === 'tabHidden') currentFocusLoss.event.type = 'tabHidden';
+        return;
+    }
+    currentFocusLoss = { event: recordIntegrityEvent(type), since: Date.now() };
+}
+
+function endFocusLoss() {
+    if (!currentFocusLoss || document.visibilityState === 'hidden') return;
+    const { event } = currentFocusLoss;
+    closeIntegrityEvent(currentFocusLoss);
+    currentFocusLoss = null;
+    if (!strictAttemptActive()) return;
+    showToast({ title: 'Integrity event recorded', message: `${INTEGRITY_LABELS[event.type]} for ${Math.round(event.duration)}s. This will appear in your report.`, type: 'warning' });
+}
+
+window.addEventListener('blur', () => startFocusLoss('windowBlur'));
+window.addEventListener('focus', endFocusLoss);
+document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') startFocusLoss('tabHidden');
+    else endFocusLoss();
+});
+
+function blockQuestionAction(e: Event, type: 'copy' | 'contextMenu') {
+    if (!strictAttemptActive()) return;
+    e.preventDefault();
+    recordIntegrityEvent(type);
+    saveAttemptCheckpoint();
+    showToast({ message: `${type === 'copy' ? 'Copying' : 'The context menu'} is disabled in strict mode. The attempt has been recorded.`, type: 'warning' });
+}
+
+questionContentContainer.addEventListener('copy', e => blockQuestionAction(e, 'copy'));
+questionContentContainer.addEventListener('cut', e => blockQuestionAction(e, 'copy'));
+questionContentContainer.addEventListener('contextmenu', e => blockQuestionAction(e, 'contextMenu'));
+returnFullscreenBtn.addEventListener('click', enterFullscreen);
+
+// --- Practice Mode ---
+function renderPracticeFeedback(q: Question, answer: number | null): string {
+    const correct = isAnswerCorrect(q, answer);
+    return `
+        <div class="practice-feedback ${correct ? 'correct' : 'incorrect'}">
+            <p class="practice-verdict">
+                <span class="material-symbols-outlined">${correct ? 'check_circle' : 'cancel'}</span>
+                ${correct ? 'Correct!' : `Incorrect. The correct answer is ${String.fromCharCode(65 + q.answer)}.`}
+            </p>
             <div class="explanation-box">
                 <h4>Explanation</h4>
                 <p>${q.explanation}</p>
             </div>
         </div>
-    `).join('');
+    `;
 }
 
-testDetailActions.addEventListener('click', e => {
-    if (!currentTest) return;
-    const target = e.target as HTMLElement;
-
-    if (target.closest('#start-test-btn')) {
-        startTest(currentTest);
-    }
-    if (target.closest('#delete-test-btn')) {
-        if (confirm(`Are you sure you want to delete the test "${currentTest.name}"? This action cannot be undone.`)) {
-            let tests = getFromStorage<Test[]>('tests', []);
-            tests = tests.filter(t => t.id !== currentTest.id);
-            saveToStorage('tests', tests);
-            showToast({ message: 'Test deleted.', type: 'success' });
-            renderAllTests();
-            showView(allTestsView);
-        }
+function checkCurrentAnswer() {
+    saveCurrentAnswer();
+    if (userAnswers[currentQuestionIndex] === null) {
+        showToast({ message: 'Select an option before checking.', type: 'warning' });
+        return;
     }
-});
-
-// --- Test Attempt Logic ---
-function startTest(test: Test) {
-    currentTest = test;
-    currentQuestionIndex = 0;
-    userAnswers = Array(test.questions.length).fill(null);
-    questionStatuses = Array(test.questions.length).fill('notVisited');
-    questionStatuses[0] = 'notAnswered';
-    timeRemaining = test.duration * 60;
-    timePerQuestion = Array(test.questions.length).fill(0);
-    questionStartTime = Date.now();
-
-    attemptTestTitle.textContent = test.name;
-    
+    checkedQuestions[currentQuestionIndex] = true;
+    logEvent('check', userAnswers[currentQuestionIndex]);
     renderQuestionForAttempt();
     updatePalette();
-    startTimer();
-    showView(testAttemptView);
+    saveAttemptCheckpoint();
 }
 
 // Format question text to properly display statement-based questions
@@ -1781,46 +5512,338 @@ function formatQuestionText(text: string): string {
     return `<div class="question-text statement-question">${formattedText}</div>`;
 }
 
+// --- Elimination & Confidence ---
+const CONFIDENCE_LEVELS: Confidence[] = ['sure', 'fiftyFifty', 'guess'];
+const CONFIDENCE_LABELS: Record<Confidence, string> = { sure: 'Sure', fiftyFifty: '50-50', guess: 'Guess' };
+
+// Both are updated in place so the option being chosen (not yet saved to userAnswers) is kept
+function toggleElimination(option: number) {
+    const eliminated = eliminatedOptions[currentQuestionIndex];
+    const item = questionContentContainer.querySelectorAll('.attempt-option-item')[option];
+    const radio = item?.querySelector('input[name="option"]') as HTMLInputElement;
+    if (!item || radio.disabled) return;
+
+    const isEliminated = !eliminated.includes(option);
+    eliminatedOptions[currentQuestionIndex] = isEliminated ? [...eliminated, option].sort((a, b) => a - b) : eliminated.filter(o => o !== option);
+    logEvent('eliminate', option);
+    if (isEliminated && radio.checked) {
+        radio.checked = false; // A struck-out option can't stay selected
+        recordAnswerChange();
+    }
+    item.classList.toggle('eliminated', isEliminated);
+    const button = item.querySelector('.eliminate-btn') as HTMLElement;
+    button.title = isEliminated ? 'Restore option' : 'Eliminate option';
+    button.querySelector('.material-symbols-outlined').textContent = isEliminated ? 'undo' : 'strikethrough_s';
+    saveAttemptCheckpoint();
+}
+
+function setConfidence(level: Confidence) {
+    if (checkedQuestions[currentQuestionIndex] && attemptOptions.mode === 'practice') return;
+    confidenceLevels[currentQuestionIndex] = confidenceLevels[currentQuestionIndex] === level ? null : level;
+    logEvent('confidence', CONFIDENCE_LEVELS.indexOf(confidenceLevels[currentQuestionIndex]));
+    questionContentContainer.querySelectorAll('.confidence-btn').forEach(btn => {
+        btn.classList.toggle('active', (btn as HTMLElement).dataset.confidence === confidenceLevels[currentQuestionIndex]);
+    });
+    saveAttemptCheckpoint();
+}
+
+questionContentContainer.addEventListener('click', e => {
+    const target = e.target as HTMLElement;
+    const eliminateBtn = target.closest('.eliminate-btn') as HTMLElement;
+    if (eliminateBtn) {
+        toggleElimination(parseInt(eliminateBtn.dataset.option, 10));
+        return;
+    }
+    const confidenceBtn = target.closest('.confidence-btn') as HTMLElement;
+    if (confidenceBtn) setConfidence(confidenceBtn.dataset.confidence as Confidence);
+});
+
+// Choosing an eliminated option brings it back
+questionContentContainer.addEventListener('change', e => {
+    const radio = e.target as HTMLInputElement;
+    if (radio.name !== 'option' || !radio.checked) return;
+    if (eliminatedOptions[currentQuestionIndex]?.includes(parseInt(radio.value, 10))) toggleElimination(parseInt(radio.value, 10));
+});
+
+// Whether the passage pane is collapsed; kept across questions so the choice sticks within a group
+let passagePaneCollapsed = false;
+
 function renderQuestionForAttempt() {
     const q = currentTest.questions[currentQuestionIndex];
-    const formattedQuestion = formatQuestionText(q.question);
-    
-    questionContentContainer.innerHTML = `
-        <div class="question-number-badge">Question ${currentQuestionIndex + 1} of ${currentTest.questions.length}</div>
+    const passage = passageFor(currentTest, q);
+    const formattedQuestion = passage ? formatQuestionText(q.question) : renderQuestionStem(q, currentTest);
+    
+    const isPractice = attemptOptions.mode === 'practice';
+    const revealed = isPractice && checkedQuestions[currentQuestionIndex];
+    const userAnswer = userAnswers[currentQuestionIndex];
+    const eliminated = eliminatedOptions[currentQuestionIndex] ?? [];
+    const confidence = confidenceLevels[currentQuestionIndex];
+    const questionHTML = `
+        <div class="question-number-badge">
+            Question ${currentQuestionIndex + 1} of ${currentTest.questions.length}
+            ${hasMixedMarking(currentTest) ? `<span class="question-marking">${formatMarking(markingFor(currentTest, currentQuestionIndex))}</span>` : ''}
+        </div>
         ${formattedQuestion}
         <ul class="attempt-options">
             ${q.options.map((opt, index) => `
-                <li class="attempt-option-item">
+                <li class="attempt-option-item eliminable ${eliminated.includes(index) ? 'eliminated' : ''} ${revealed && index === q.answer ? 'correct' : ''} ${revealed && index === userAnswer && index !== q.answer ? 'user-incorrect' : ''}">
                     <label>
-                        <input type="radio" name="option" value="${index}" ${userAnswers[currentQuestionIndex] === index ? 'checked' : ''}>
+                        <input type="radio" name="option" value="${index}" ${userAnswer === index ? 'checked' : ''} ${revealed ? 'disabled' : ''}>
                         <span class="option-label">${String.fromCharCode(65 + index)}</span>
                         <span class="option-text">${opt}</span>
                     </label>
+                    <button class="eliminate-btn" data-option="${index}" title="${eliminated.includes(index) ? 'Restore option' : 'Eliminate option'}" ${revealed ? 'disabled' : ''}>
+                        <span class="material-symbols-outlined">${eliminated.includes(index) ? 'undo' : 'strikethrough_s'}</span>
+                    </button>
                 </li>
             `).join('')}
         </ul>
+        <div class="confidence-picker">
+            <span class="confidence-picker-label">Confidence</span>
+            ${CONFIDENCE_LEVELS.map(level => `
+                <button class="confidence-btn ${level} ${confidence === level ? 'active' : ''}" data-confidence="${level}" ${revealed ? 'disabled' : ''}>
+                    ${CONFIDENCE_LABELS[level]}
+                </button>
+            `).join('')}
+        </div>
+        ${isPractice ? (revealed ? renderPracticeFeedback(q, userAnswer) : `
+            <button id="check-answer-btn" class="action-btn check-answer-btn">
+                <span class="material-symbols-outlined">fact_check</span> Check Answer
+            </button>
+        `) : ''}
+    `;
+
+    if (!passage) {
+        questionContentContainer.innerHTML = questionHTML;
+        return;
+    }
+
+    // Comprehension questions show their passage alongside the question
+    const label = q.type === 'comprehension' && q.passageId ? passageQuestionLabel(currentTest, q.passageId) : '';
+    questionContentContainer.innerHTML = `
+        <div class="passage-layout">
+            <details class="passage-pane" ${passagePaneCollapsed ? '' : 'open'}>
+                <summary>
+                    <span class="material-symbols-outlined">article</span>
+                    ${passage.title || 'Passage'}${label ? ` <span class="passage-label">(${label})</span>` : ''}
+                </summary>
+                <div class="passage-text">${formatPassageText(passage.text)}</div>
+            </details>
+            <div class="passage-question">${questionHTML}</div>
+        </div>
     `;
 }
 
+// 'toggle' does not bubble, so listen in the capture phase
+questionContentContainer.addEventListener('toggle', (e) => {
+    const pane = e.target as HTMLDetailsElement;
+    if (pane.classList?.contains('passage-pane')) {
+        passagePaneCollapsed = !pane.open;
+    }
+}, true);
+
+const sectionalTiming = () => attemptOptions.timer === 'countDown' && isSectionTimed(currentTest);
+
+// Index of the next section that has questions, or -1 after the last one
+const nextSectionIndex = (ranges: SectionRange[], current: number) => ranges.findIndex((range, i) => i > current && range.end > range.start);
+
+function updateSectionBar(ranges: SectionRange[], current: number) {
+    sectionBar.classList.toggle('hidden', ranges.length === 0);
+    if (ranges.length === 0) return;
+    const { section } = ranges[current];
+    sectionBarName.textContent = `Section ${current + 1} of ${ranges.length}: ${section.name}${sectionalTiming() ? ` • ${section.duration} min` : ''}`;
+    nextSectionBtn.classList.toggle('hidden', !currentTest.sectionLocked || nextSectionIndex(ranges, current) === -1);
+}
+
+// With sections, the palette shows the current section's questions under a row of section tabs
 function updatePalette() {
-    questionPaletteContainer.innerHTML = currentTest.questions.map((_, index) => {
+    const ranges = sectionRanges(currentTest);
+    const current = sectionIndexFor(ranges, currentQuestionIndex);
+    updateSectionBar(ranges, current);
+    paletteSectionTabs.classList.toggle('hidden', ranges.length === 0);
+    paletteSectionTabs.innerHTML = ranges.map((range, i) => {
+        const answered = userAnswers.slice(range.start, range.end).filter(answer => answer !== null).length;
+        const locked = currentTest.sectionLocked && i !== current;
+        return `
+            <button class="palette-section-tab ${i === current ? 'active' : ''}" data-section-index="${i}" ${locked ? 'disabled' : ''}>
+                ${locked ? '<span class="material-symbols-outlined">lock</span>' : ''}${range.section.name}
+                <span class="palette-section-count">${answered}/${range.end - range.start}</span>
+            </button>
+        `;
+    }).join('');
+
+    const { start, end } = ranges[current] ?? { start: 0, end: currentTest.questions.length };
+    questionPaletteContainer.innerHTML = currentTest.questions.slice(start, end).map((_, offset) => {
+        const index = start + offset;
         const status = questionStatuses[index];
         const isCurrent = index === currentQuestionIndex;
-        return `<button class="palette-btn ${status} ${isCurrent ? 'current' : ''}" data-index="${index}">${index + 1}</button>`;
+        const practiceResult = checkedQuestions[index]
+            ? (isAnswerCorrect(currentTest.questions[index], userAnswers[index]) ? 'practice-correct' : 'practice-incorrect')
+            : '';
+        return `<button class="palette-btn ${status} ${practiceResult} ${isCurrent ? 'current' : ''}" data-index="${index}">${index + 1}</button>`;
     }).join('');
 }
 
+paletteSectionTabs.addEventListener('click', e => {
+    const tab = (e.target as HTMLElement).closest('.palette-section-tab') as HTMLButtonElement;
+    if (!tab || tab.disabled) return;
+    const range = sectionRanges(currentTest)[parseInt(tab.dataset.sectionIndex, 10)];
+    if (range && range.start !== currentQuestionIndex) navigateToQuestion(range.start, 'jump');
+});
+
+// Leaves the current section for the next one, submitting after the last
+function advanceSection() {
+    const ranges = sectionRanges(currentTest);
+    const current = sectionIndexFor(ranges, currentQuestionIndex);
+    const next = nextSectionIndex(ranges, current);
+    if (next === -1) {
+        handleSubmitTest();
+        return;
+    }
+
+    saveCurrentAnswer();
+    if (sectionalTiming()) {
+        stopTimer();
+        sectionTimeUsed[current] = ranges[current].section.duration * 60 - timeRemaining;
+        timeRemaining = ranges[next].section.duration * 60;
+        timeLeftEl.textContent = formatClock(timeRemaining);
+        if (!attemptPaused) startTimer();
+    }
+
+    currentQuestionIndex = ranges[next].start;
+    logEvent('section');
+    if (questionStatuses[currentQuestionIndex] === 'notVisited') {
+        questionStatuses[currentQuestionIndex] = 'notAnswered';
+    }
+    renderQuestionForAttempt();
+    updatePalette();
+    saveAttemptCheckpoint();
+}
+
+nextSectionBtn.addEventListener('click', () => {
+    const ranges = sectionRanges(currentTest);
+    const current = sectionIndexFor(ranges, currentQuestionIndex);
+    const next = ranges[nextSectionIndex(ranges, current)];
+    if (next && confirm(`Move on to "${next.section.name}"? You won't be able to return to "${ranges[current].section.name}".`)) {
+        advanceSection();
+    }
+});
+
 questionPaletteContainer.addEventListener('click', e => {
     const target = e.target as HTMLElement;
     if (target.classList.contains('palette-btn')) {
         const newIndex = parseInt(target.dataset.index, 10);
         if (newIndex !== currentQuestionIndex) {
-            navigateToQuestion(newIndex);
+            navigateToQuestion(newIndex, 'jump');
         }
     }
 });
 
+// --- Attempt Event Log ---
+// Every interaction is logged as an AttemptEvent; question times, visits and answer changes
+// are all derived from the log when the attempt is submitted.
+const IDLE_THRESHOLD_SECONDS = 60;
+
+const eventTime = (time = Date.now()) => Math.max(0, Math.round((time - new Date(attemptStartedAt).getTime()) / 100));
+
+function logEvent(type: AttemptEventType, value?: number, questionIndex = currentQuestionIndex, time = Date.now()) {
+    attemptEvents.push(value === undefined ? [eventTime(time), type, questionIndex] : [eventTime(time), type, questionIndex, value]);
+    if (type !== 'idle') lastActivityAt = time;
+}
+
+function latestAnswer(events: AttemptEvent[], questionIndex: number): number | null {
+    for (let i = events.length - 1; i >= 0; i--) {
+        const [, type, index, value] = events[i];
+        if (type === 'answer' && index === questionIndex) return value >= 0 ? value : null;
+    }
+    return null;
+}
+
+// Logs the on-screen selection when it differs from the last one logged for the question
+function recordAnswerChange() {
+    if (!currentTest) return;
+    const selected = questionContentContainer.querySelector('input[name="option"]:checked') as HTMLInputElement;
+    const to = selected ? parseInt(selected.value, 10) : null;
+    if (latestAnswer(attemptEvents, currentQuestionIndex) !== to) logEvent('answer', to ?? -1);
+}
+
+// An idle period starts at the last input once nothing has happened for IDLE_THRESHOLD_SECONDS
+function checkIdle() {
+    if (attemptIdle || Date.now() - lastActivityAt < IDLE_THRESHOLD_SECONDS * 1000) return;
+    attemptIdle = true;
+    logEvent('idle', undefined, currentQuestionIndex, lastActivityAt);
+}
+
+function noteActivity() {
+    if (!currentTest || attemptPaused || testAttemptView.classList.contains('hidden')) return;
+    if (attemptIdle) {
+        attemptIdle = false;
+        logEvent('active');
+    }
+    lastActivityAt = Date.now();
+}
+
+['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'].forEach(type => {
+    document.addEventListener(type, noteActivity, { passive: true });
+});
+
+const ARRIVAL_EVENTS: AttemptEventType[] = ['start', 'next', 'prev', 'jump', 'section'];
+
+interface EventMetrics {
+    timePerQuestion: number[]; // in seconds, excluding pauses
+    visits: QuestionVisit[];
+    answerChanges: AnswerChange[];
+    idleSeconds: number;
+}
+
+// Replays the log: time between consecutive events goes to the question on screen, unless paused
+function metricsFromEvents(events: AttemptEvent[], questionCount: number): EventMetrics {
+    const metrics: EventMetrics = { timePerQuestion: Array(questionCount).fill(0), visits: [], answerChanges: [], idleSeconds: 0 };
+    const answers = new Map<number, number | null>();
+    let visit: QuestionVisit | null = null;
+    let paused = false;
+    let idleSince: number | null = null;
+    let previous = 0;
+
+    events.forEach(([time, type, index, value]) => {
+        const elapsed = (time - previous) / 10;
+        previous = time;
+        if (!paused && visit) {
+            metrics.timePerQuestion[visit.questionIndex] += elapsed;
+            visit.duration += elapsed;
+        }
+
+        if (ARRIVAL_EVENTS.includes(type) && index !== visit?.questionIndex) {
+            if (visit) metrics.visits.push(visit);
+            visit = { questionIndex: index, at: time / 10, duration: 0 };
+        } else if (type === 'answer') {
+            const to = value >= 0 ? value : null;
+            metrics.answerChanges.push({ questionIndex: index, from: answers.get(index) ?? null, to, at: time / 10 });
+            answers.set(index, to);
+        } else if (type === 'pause') {
+            paused = true;
+        } else if (type === 'resume') {
+            paused = false;
+        } else if (type === 'idle') {
+            idleSince = time;
+        }
+        if (idleSince !== null && type !== 'idle') {
+            metrics.idleSeconds += (time - idleSince) / 10;
+            idleSince = null;
+        }
+    });
+    if (visit) metrics.visits.push(visit);
+
+    metrics.timePerQuestion = metrics.timePerQuestion.map(roundSeconds);
+    metrics.visits.forEach(v => v.duration = roundSeconds(v.duration));
+    metrics.idleSeconds = roundSeconds(metrics.idleSeconds);
+    return metrics;
+}
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 10) / 10;
+
 function saveCurrentAnswer() {
+    recordAnswerChange();
     const selectedOption = document.querySelector('input[name="option"]:checked') as HTMLInputElement;
     userAnswers[currentQuestionIndex] = selectedOption ? parseInt(selectedOption.value, 10) : null;
 
@@ -1834,32 +5857,39 @@ function saveCurrentAnswer() {
     }
 }
 
-function navigateToQuestion(newIndex: number) {
-    // Record time for the current (outgoing) question
-    if (currentTest) {
-        const timeSpent = (Date.now() - questionStartTime) / 1000;
-        timePerQuestion[currentQuestionIndex] += timeSpent;
-    }
-
+function navigateToQuestion(newIndex: number, via: 'next' | 'prev' | 'jump' = newIndex < currentQuestionIndex ? 'prev' : 'next') {
     saveCurrentAnswer(); // Save answer for the outgoing question
 
+    // Section-locked tests keep navigation inside the current section
+    if (currentTest.sectionLocked) {
+        const ranges = sectionRanges(currentTest);
+        const range = ranges[sectionIndexFor(ranges, currentQuestionIndex)];
+        if (range && newIndex >= range.end && newIndex < currentTest.questions.length) {
+            updatePalette();
+            showToast({ message: 'Last question of this section. Use Next Section when you\'re ready to move on.', type: 'info' });
+            return;
+        }
+        if (range && newIndex < range.start && newIndex >= 0) {
+            showToast({ message: 'Earlier sections are locked.', type: 'info' });
+            return;
+        }
+    }
+
     // Handle navigation limits - if at last question, stay there silently (no popup)
     if (newIndex >= currentTest.questions.length) {
         updatePalette();
-        questionStartTime = Date.now();
         // Show a subtle toast instead of alert
         showToast({ message: 'Last question reached. Click Submit when ready.', type: 'info' });
         return;
     }
     if (newIndex < 0) {
-        questionStartTime = Date.now();
         showToast({ message: 'You\'re at the first question.', type: 'info' });
         return;
     }
 
     // Move to the new question
     currentQuestionIndex = newIndex;
-    questionStartTime = Date.now(); // Reset timer for the new (incoming) question
+    logEvent(via);
 
     // Update status and render
     if (questionStatuses[currentQuestionIndex] === 'notVisited') {
@@ -1867,6 +5897,7 @@ function navigateToQuestion(newIndex: number) {
     }
     renderQuestionForAttempt();
     updatePalette();
+    saveAttemptCheckpoint();
 }
 
 const prevBtn = document.getElementById('prev-btn') as HTMLButtonElement;
@@ -1877,8 +5908,11 @@ prevBtn.addEventListener('click', () => navigateToQuestion(currentQuestionIndex
 
 clearResponseBtn.addEventListener('click', () => {
     const selectedOption = document.querySelector('input[name="option"]:checked') as HTMLInputElement;
-    if (selectedOption) {
+    if (selectedOption && !selectedOption.disabled) {
         selectedOption.checked = false;
+        logEvent('clear');
+        recordAnswerChange();
+        saveAttemptCheckpoint();
         showToast({ message: 'Response cleared', type: 'info' });
     }
 });
@@ -1890,6 +5924,7 @@ markReviewBtn.addEventListener('click', () => {
     } else {
         questionStatuses[currentQuestionIndex] = 'marked';
     }
+    logEvent('mark');
     navigateToQuestion(currentQuestionIndex + 1);
 });
 
@@ -1897,10 +5932,9 @@ function handleSubmitTest() {
     try {
         stopTimer();
         
-        // Record time for the final question and save the final answer
-        const timeSpent = (Date.now() - questionStartTime) / 1000;
-        timePerQuestion[currentQuestionIndex] += timeSpent;
+        // Save the final answer and close the log
         saveCurrentAnswer();
+        logEvent('submit');
 
         if (!currentTest) {
             console.error("Submission failed: currentTest is not available.");
@@ -1909,50 +5943,65 @@ function handleSubmitTest() {
             return;
         }
 
-        let correctAnswers = 0;
-        let incorrectAnswers = 0;
-        let unanswered = 0;
-        
-        currentTest.questions.forEach((q, index) => {
-            if (userAnswers[index] === null) {
-                unanswered++;
-            } else if (userAnswers[index] === q.answer) {
-                correctAnswers++;
-            } else {
-                incorrectAnswers++;
-            }
-        });
+        const marks = scoreAnswers(currentTest, userAnswers);
 
-        const marksPerQ = currentTest.marksPerQuestion || 1;
-        const negMark = currentTest.negativeMarking || 0;
-        const rawScore = (correctAnswers * marksPerQ) - (incorrectAnswers * negMark);
-        const totalMaxScore = currentTest.questions.length * marksPerQ;
+        const metrics = metricsFromEvents(attemptEvents, currentTest.questions.length);
+        let timeTaken = attemptOptions.timer === 'countDown' ? (currentTest.duration * 60) - timeRemaining : elapsedSeconds;
+        if (sectionalTiming()) {
+            const ranges = sectionRanges(currentTest);
+            const current = sectionIndexFor(ranges, currentQuestionIndex);
+            sectionTimeUsed[current] = ranges[current].section.duration * 60 - timeRemaining;
+            timeTaken = sectionTimeUsed.reduce((total, seconds) => total + seconds, 0);
+        }
 
-        // Calculate percentage based on raw score vs potential max score
-        const scorePercentage = totalMaxScore > 0 
-            ? Math.max(0, (rawScore / totalMaxScore) * 100) 
-            : 0;
-        
         const attempt: TestAttempt = {
             testId: currentTest.id,
             testName: currentTest.name,
             userAnswers,
-            timeTaken: (currentTest.duration * 60) - timeRemaining,
-            timePerQuestion,
+            timeTaken,
+            timePerQuestion: metrics.timePerQuestion,
             completedAt: new Date().toISOString(),
-            score: scorePercentage, // Storing percentage for consistency
+            score: scorePercentage(marks), // Storing percentage for consistency
+            rawMarks: marks.rawMarks,
+            maxMarks: marks.maxMarks,
             totalQuestions: currentTest.questions.length,
-            correctAnswers,
-            incorrectAnswers,
-            unanswered,
-            fullTest: currentTest
+            correctAnswers: marks.correct,
+            incorrectAnswers: marks.incorrect,
+            unanswered: marks.unanswered,
+            fullTest: currentTest,
+            mode: attemptOptions.mode,
+            ...(sectionalTiming() ? { sectionTimes: [...sectionTimeUsed] } : {}),
+            confidence: confidenceLevels,
+            eliminations: eliminatedOptions,
+            answerChanges: metrics.answerChanges,
+            visits: metrics.visits,
+            events: attemptEvents,
+            ...(attemptOptions.strict ? { strict: true, integrityEvents } : {})
         };
 
-        const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
-        history.unshift(attempt);
-        saveToStorage('performanceHistory', history);
+        // Review sessions re-ask questions already counted in history, so saving them would skew analytics
+        if (!currentTest.reviewSession) {
+            const history = loadHistory();
+            history.unshift(attempt);
+            // Without room for the result, stay on the attempt and keep its checkpoint so nothing is lost;
+            // submitting again retries the save
+            if (!saveHistory(history)) {
+                attemptEvents.pop();
+                saveAttemptCheckpoint();
+                showToast({ message: 'Your answers are still here. Free up space and submit again, or leave and resume this attempt later.', type: 'warning', duration: 8000 });
+                return;
+            }
+        }
+
+        // Answers marked as a guess or 50-50, or still marked for review at submission, count as guesses for the review schedule
+        const guessed = new Set(questionStatuses
+            .map((status, i) => (status === 'markedAndAnswered' || (confidenceLevels[i] && confidenceLevels[i] !== 'sure') ? i : -1))
+            .filter(i => i >= 0));
+        recordReviewOutcomes(attempt, guessed);
+        discardAttemptCheckpoint();
 
         currentTest = null; // Clear the current test state
+        endStrictMode();
         
         // Redirect directly to the full report instead of the history list
         renderPerformanceReport(attempt, false);
@@ -1966,17 +6015,57 @@ function handleSubmitTest() {
 }
 
 // --- Timer Logic ---
+function formatClock(totalSeconds: number): string {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+// The clock is derived from Date.now() rather than counting ticks, so throttled background
+// tabs and resumed attempts stay accurate
+let timerSegmentStart = 0; // When the timer was last started
+let timerSegmentBase = 0; // timeRemaining (countdown) or elapsedSeconds at that moment
+let ticksSinceCheckpoint = 0;
+
+function syncTimerClock() {
+    if (timerInterval === null) return;
+    const segmentSeconds = Math.floor((Date.now() - timerSegmentStart) / 1000);
+    if (attemptOptions.timer === 'countDown') {
+        timeRemaining = Math.max(0, timerSegmentBase - segmentSeconds);
+    } else {
+        elapsedSeconds = timerSegmentBase + segmentSeconds;
+    }
+}
+
 function startTimer() {
     if (timerInterval) window.clearInterval(timerInterval);
+    timerSegmentStart = Date.now();
+    timerSegmentBase = attemptOptions.timer === 'countDown' ? timeRemaining : elapsedSeconds;
     timerInterval = window.setInterval(() => {
-        timeRemaining--;
-        const hours = Math.floor(timeRemaining / 3600);
-        const minutes = Math.floor((timeRemaining % 3600) / 60);
-        const seconds = timeRemaining % 60;
-        timeLeftEl.textContent = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+        syncTimerClock();
+        checkIdle();
+        if (++ticksSinceCheckpoint >= CHECKPOINT_INTERVAL_SECONDS) {
+            ticksSinceCheckpoint = 0;
+            saveAttemptCheckpoint();
+        }
+
+        // Practice attempts without a countdown still track elapsed time for the report
+        if (attemptOptions.timer !== 'countDown') {
+            timeLeftEl.textContent = formatClock(elapsedSeconds);
+            return;
+        }
+
+        timeLeftEl.textContent = formatClock(timeRemaining);
         
         if (timeRemaining <= 0) {
             stopTimer();
+            const ranges = sectionRanges(currentTest);
+            if (sectionalTiming() && nextSectionIndex(ranges, sectionIndexFor(ranges, currentQuestionIndex)) !== -1) {
+                showToast({ title: 'Section Time Over', message: 'Moving on to the next section.', type: 'warning' });
+                advanceSection();
+                return;
+            }
             showToast({ title: 'Time\'s Up!', message: 'Your test will be submitted automatically.', type: 'warning' });
             handleSubmitTest();
         }
@@ -1984,6 +6073,7 @@ function startTimer() {
 }
 
 function stopTimer() {
+    syncTimerClock();
     if (timerInterval) window.clearInterval(timerInterval);
     timerInterval = null;
 }
@@ -2008,8 +6098,15 @@ resultsSortSelect?.addEventListener('change', (e) => {
     renderPerformanceHistory();
 });
 
+function cutoffBadge(attempt: TestAttempt): string {
+    const result = compareWithCutoff(attempt);
+    return `<span class="cutoff-status small ${result.qualified ? 'qualified' : 'not-qualified'}" title="${result.profile.name}: ${formatMarks(result.distance)} marks">
+        ${result.qualified ? 'Pass' : 'Fail'} • ${formatMarks(result.distance)}
+    </span>`;
+}
+
 function renderPerformanceHistory() {
-    let history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+    let history = loadHistory();
     
     if (history.length === 0) {
         performanceContainer.innerHTML = `<p class="placeholder">You haven't completed any tests yet.</p>`;
@@ -2050,7 +6147,7 @@ function renderPerformanceHistory() {
     }
     
     // Get original history for index mapping
-    const originalHistory = getFromStorage<TestAttempt[]>('performanceHistory', []);
+    const originalHistory = loadHistory();
 
     // Calculate overall stats
     const totalTests = history.length;
@@ -2130,6 +6227,8 @@ function renderPerformanceHistory() {
                     <div class="history-meta">
                         <span><span class="material-symbols-outlined">calendar_today</span> ${date}</span>
                         <span><span class="material-symbols-outlined">schedule</span> ${time}</span>
+                        ${attempt.mode === 'practice' ? '<span class="mode-badge practice"><span class="material-symbols-outlined">school</span> Practice</span>' : ''}
+                        ${attempt.strict ? `<span class="mode-badge strict"><span class="material-symbols-outlined">verified_user</span> Strict • ${attempt.integrityEvents?.length ?? 0} flags</span>` : ''}
                     </div>
                 </div>
                 <div class="history-score-badge-container">
@@ -2137,6 +6236,7 @@ function renderPerformanceHistory() {
                         <div class="score-value">${attempt.score.toFixed(1)}<span class="score-percent">%</span></div>
                         <div class="score-label">Score</div>
                     </div>
+                    ${cutoffBadge(attempt)}
                 </div>
             </div>
             
@@ -2213,7 +6313,7 @@ performanceContainer.addEventListener('click', (e) => {
         const item = viewBtn.closest('.history-card') as HTMLElement;
         if (item) {
             const index = parseInt(item.dataset.attemptIndex, 10);
-            const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+            const history = loadHistory();
             
             if (isNaN(index) || index < 0 || index >= history.length) {
                 showToast({ message: 'Unable to load result. Please try again.', type: 'error' });
@@ -2239,14 +6339,12 @@ performanceContainer.addEventListener('click', (e) => {
         const item = retryBtn.closest('.history-card') as HTMLElement;
         if (item) {
             const index = parseInt(item.dataset.attemptIndex, 10);
-            const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+            const history = loadHistory();
             const attempt = history[index];
             
             if (attempt && attempt.fullTest) {
-                if (confirm(`🔄 Retry "${attempt.testName}"?\n\nThis will start a fresh attempt of the same test.`)) {
-                    // Start the test from the stored test data
-                    startTest(attempt.fullTest);
-                }
+                // Start the test from the stored test data; the start modal doubles as confirmation
+                openStartTestModal(attempt.fullTest);
             } else {
                 showToast({ message: 'Test data not available for retry.', type: 'warning' });
             }
@@ -2261,12 +6359,12 @@ performanceContainer.addEventListener('click', (e) => {
         const item = deleteBtn.closest('.history-card') as HTMLElement;
         if (item) {
             const index = parseInt(item.dataset.attemptIndex, 10);
-            const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+            const history = loadHistory();
             const attemptName = history[index]?.testName || 'this result';
             
             if (confirm(`🗑️ Delete result for "${attemptName}"?\n\nThis action cannot be undone.`)) {
                 history.splice(index, 1);
-                saveToStorage('performanceHistory', history);
+                if (saveHistory(history)) pruneQuestionBank();
                 renderPerformanceHistory();
                 
                 // Show brief confirmation
@@ -2280,7 +6378,7 @@ performanceContainer.addEventListener('click', (e) => {
     const historyCard = target.closest('.history-card') as HTMLElement;
     if (historyCard && !target.closest('button')) {
         const index = parseInt(historyCard.dataset.attemptIndex, 10);
-        const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+        const history = loadHistory();
         
         if (!isNaN(index) && index >= 0 && index < history.length) {
             const attempt = history[index];
@@ -2293,6 +6391,165 @@ performanceContainer.addEventListener('click', (e) => {
 });
 
 // Render detailed performance report
+interface SectionScore extends MarksSummary {
+    range: SectionRange;
+    timeUsed: number; // in seconds
+}
+
+function sectionScores(attempt: TestAttempt): SectionScore[] {
+    const test = attempt.fullTest;
+    return sectionRanges(test).map((range, i) => {
+        const indexes = Array.from({ length: range.end - range.start }, (_, offset) => range.start + offset);
+        return {
+            range,
+            ...scoreAnswers(test, attempt.userAnswers, indexes),
+            // Question times are a close estimate when the section clock wasn't recorded
+            timeUsed: attempt.sectionTimes?.[i] ?? indexes.reduce((total, index) => total + (attempt.timePerQuestion[index] || 0), 0)
+        };
+    });
+}
+
+function renderSectionScores(attempt: TestAttempt) {
+    const scores = sectionScores(attempt);
+    sectionScoresCard.classList.toggle('hidden', scores.length === 0);
+    sectionScoresContainer.innerHTML = scores.map(score => {
+        const { range, correct, incorrect, unanswered, bonus, dropped, rawMarks, maxMarks, lostToNegatives, timeUsed } = score;
+        const attempted = correct + incorrect;
+        const accuracy = attempted > 0 ? (correct / attempted) * 100 : 0;
+        const scorePct = scorePercentage(score);
+        const color = scorePct >= 60 ? 'var(--success-color)' : scorePct >= 40 ? 'var(--warning-color)' : 'var(--danger-color)';
+        return `
+            <div class="section-score-row">
+                <div class="section-score-header">
+                    <span class="section-score-name">${range.section.name} <span class="passage-label">Q${range.start + 1}–${range.end}</span></span>
+                    <span class="section-score-marks" style="color: ${color}">${Number(rawMarks.toFixed(2))} / ${Number(maxMarks.toFixed(2))}</span>
+                </div>
+                <div class="progress-bar small">
+                    <div class="progress-bar-fill" style="width: ${scorePct}%; background-color: ${color}"></div>
+                </div>
+                <div class="section-score-details">
+                    <span>${correct} correct</span>
+                    <span>${incorrect} incorrect</span>
+                    <span>${unanswered} unanswered</span>
+                    ${bonus + dropped > 0 ? `<span>${bonus + dropped} bonus/dropped</span>` : ''}
+                    ${lostToNegatives > 0 ? `<span>−${Number(lostToNegatives.toFixed(2))} to negatives</span>` : ''}
+                    <span>${accuracy.toFixed(1)}% accuracy</span>
+                    <span>${formatClock(Math.round(timeUsed))}${range.section.duration ? ` of ${range.section.duration} min` : ''}</span>
+                </div>
+            </div>
+        `;
+    }).join('');
+}
+
+function renderMarksBreakdown(marks: MarksSummary) {
+    const item = (label: string, value: string, tone = '') => `
+        <div class="marks-breakdown-item ${tone}">
+            <span class="marks-breakdown-value">${value}</span>
+            <span class="marks-breakdown-label">${label}</span>
+        </div>
+    `;
+    // Marks on offer that neither a correct answer nor a bonus collected
+    const forgone = marks.maxMarks - marks.earned - marks.bonusMarks;
+    marksBreakdownContainer.innerHTML = `
+        ${item('Earned from correct', formatMarks(marks.earned), 'positive')}
+        ${marks.bonus > 0 ? item(`Bonus (${marks.bonus} question${marks.bonus > 1 ? 's' : ''})`, formatMarks(marks.bonusMarks), 'positive') : ''}
+        ${item('Lost to negatives', `−${marks.lostToNegatives.toFixed(2)}`, marks.lostToNegatives > 0 ? 'negative' : '')}
+        ${item('Not earned (wrong or skipped)', forgone.toFixed(2))}
+        ${item('Raw total', `${formatMarks(marks.rawMarks)} / ${Number(marks.maxMarks.toFixed(2))}`)}
+        ${marks.dropped > 0 ? item('Dropped (not scored)', `${marks.dropped} question${marks.dropped > 1 ? 's' : ''}`) : ''}
+    `;
+}
+
+function renderCutoffComparison(attempt: TestAttempt, profile = cutoffProfileFor(attempt.fullTest)) {
+    const result = compareWithCutoff(attempt, profile);
+    const { raw, max } = attemptMarks(attempt);
+    const position = (marks: number) => `${Math.min(100, Math.max(0, (marks / Math.max(max, 1)) * 100))}%`;
+    const samePaper = allCutoffProfiles().filter(p => p.paper === profile.paper);
+
+    cutoffContainer.innerHTML = `
+        <div class="cutoff-header">
+            <span class="cutoff-status ${result.qualified ? 'qualified' : 'not-qualified'}">
+                <span class="material-symbols-outlined">${result.qualified ? 'verified' : 'block'}</span>
+                ${result.qualified ? 'Qualified' : 'Below cut-off'}
+            </span>
+            <select id="report-cutoff-select" title="Compare with another cut-off">${renderCutoffOptions(profile.id, false)}</select>
+        </div>
+        <p class="analysis-description">
+            ${PAPER_LABELS[profile.paper]} • ${formatMarks(raw)} of ${Number(max.toFixed(2))} marks against a cut-off of
+            ${result.required.toFixed(2)} (${cutoffPercentage(profile).toFixed(1)}%) •
+            <strong class="${result.qualified ? 'positive' : 'negative'}">${result.distance >= 0 ? `${result.distance.toFixed(2)} marks above` : `${Math.abs(result.distance).toFixed(2)} marks short`}</strong>
+        </p>
+        <div class="cutoff-bar">
+            <div class="cutoff-bar-fill ${result.qualified ? 'qualified' : 'not-qualified'}" style="width: ${position(raw)}"></div>
+            <div class="cutoff-bar-marker" style="left: ${position(result.required)}" title="Cut-off ${result.required.toFixed(2)}"></div>
+        </div>
+        ${samePaper.length > 1 ? `
+            <table class="elimination-table">
+                <thead>
+                    <tr><th>Cut-off</th><th>Required</th><th>Distance</th><th>Status</th></tr>
+                </thead>
+                <tbody>
+                    ${samePaper.map(p => compareWithCutoff(attempt, p)).map(r => `
+                        <tr>
+                            <td>${r.profile.name}</td>
+                            <td>${r.required.toFixed(2)}</td>
+                            <td class="${r.qualified ? 'positive' : 'negative'}">${formatMarks(r.distance)}</td>
+                            <td>${r.qualified ? 'Pass' : 'Fail'}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        ` : ''}
+    `;
+    (cutoffContainer.querySelector('#report-cutoff-select') as HTMLSelectElement).addEventListener('change', e => {
+        const selected = allCutoffProfiles().find(p => p.id === (e.target as HTMLSelectElement).value);
+        if (selected) renderCutoffComparison(attempt, selected);
+    });
+}
+
+function renderIntegrityReport(attempt: TestAttempt) {
+    integrityCard.classList.toggle('hidden', !attempt.strict);
+    if (!attempt.strict) return;
+
+    const events = attempt.integrityEvents ?? [];
+    const timeAway = events.reduce((total, event) => total + (event.duration || 0), 0);
+    const counts = (Object.keys(INTEGRITY_LABELS) as IntegrityEventType[])
+        .map(type => ({ type, count: events.filter(event => event.type === type).length }));
+
+    integrityContainer.innerHTML = `
+        <p class="analysis-description">
+            ${events.length === 0
+                ? 'Clean attempt: no focus losses, fullscreen exits or copy attempts were recorded.'
+                : `${events.length} integrity event(s) recorded • ${formatClock(Math.round(timeAway))} spent away from the test`}
+        </p>
+        <div class="bias-stats-row">
+            ${counts.map(({ type, count }) => `
+                <div class="bias-stat integrity-stat ${count > 0 ? 'flagged' : ''}">
+                    <span class="bias-stat-value">${count}</span>
+                    <span class="bias-stat-label">${INTEGRITY_LABELS[type]}</span>
+                </div>
+            `).join('')}
+        </div>
+        ${events.length > 0 ? `
+            <table class="elimination-table">
+                <thead>
+                    <tr><th>Time</th><th>Event</th><th>Question</th><th>Away</th></tr>
+                </thead>
+                <tbody>
+                    ${events.map(event => `
+                        <tr>
+                            <td>${formatClock(Math.floor(event.at))}</td>
+                            <td>${INTEGRITY_LABELS[event.type]}</td>
+                            <td>Q${event.questionIndex + 1}</td>
+                            <td>${event.duration !== undefined ? `${Math.round(event.duration)}s` : '—'}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        ` : ''}
+    `;
+}
+
 function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = true) {
     if (!attempt || !attempt.fullTest) {
         showToast({ message: 'Invalid result data. Cannot display report.', type: 'error' });
@@ -2310,7 +6567,7 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
         backToPerformanceListBtn.innerHTML = '<span class="material-symbols-outlined">home</span> Back to All Tests';
     }
 
-    performanceReportTitle.textContent = `Result Report for ${attempt.testName}`;
+    performanceReportTitle.textContent = `${attempt.mode === 'practice' ? 'Practice Report' : 'Result Report'} for ${attempt.testName}`;
     
     const attemptedCount = attempt.correctAnswers + attempt.incorrectAnswers;
     const accuracy = attemptedCount > 0 ? (attempt.correctAnswers / attemptedCount) * 100 : 0;
@@ -2319,6 +6576,7 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
     // Calculate rank estimate
     const rankCategory = attempt.score >= 80 ? 'Excellent' : attempt.score >= 60 ? 'Good' : attempt.score >= 40 ? 'Average' : 'Needs Work';
     const rankColor = attempt.score >= 80 ? 'var(--success-color)' : attempt.score >= 60 ? 'var(--info-color)' : attempt.score >= 40 ? 'var(--warning-color)' : 'var(--danger-color)';
+    const marks = scoreAnswers(attempt.fullTest, attempt.userAnswers);
     
     // 1. Render Summary Cards with enhanced info
     performanceSummaryContainer.innerHTML = `
@@ -2328,6 +6586,13 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
                 <div class="summary-value">${attempt.score.toFixed(1)}%</div>
                 <div class="summary-label">Score</div>
             </div>
+        </div>
+        <div class="summary-card marks">
+            <div class="summary-icon"><span class="material-symbols-outlined">scoreboard</span></div>
+            <div class="summary-data">
+                <div class="summary-value">${Number(marks.rawMarks.toFixed(2))} / ${Number(marks.maxMarks.toFixed(2))}</div>
+                <div class="summary-label">Raw Marks</div>
+            </div>
         </div>
          <div class="summary-card accuracy">
             <div class="summary-icon"><span class="material-symbols-outlined">track_changes</span></div>
@@ -2357,6 +6622,15 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
                 <div class="summary-label">Unanswered</div>
             </div>
         </div>
+        ${marks.bonus + marks.dropped > 0 ? `
+        <div class="summary-card unanswered">
+            <div class="summary-icon"><span class="material-symbols-outlined">redeem</span></div>
+             <div class="summary-data">
+                <div class="summary-value">${marks.bonus + marks.dropped}</div>
+                <div class="summary-label">Bonus / Dropped</div>
+            </div>
+        </div>
+        ` : ''}
         <div class="summary-card time">
              <div class="summary-icon"><span class="material-symbols-outlined">timer</span></div>
              <div class="summary-data">
@@ -2380,14 +6654,25 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
         </div>
     `;
 
+    renderMarksBreakdown(marks);
+    renderCutoffComparison(attempt);
+    renderSectionScores(attempt);
+    renderIntegrityReport(attempt);
+    renderKeyRevisionAudit(attempt);
+
     // 2. Render content into all containers (initially hidden by CSS except active one)
     renderTimeAnalysisCharts(attempt);
     renderSubjectBreakdown(attempt);
     renderTopicWiseAnalysis(attempt);
     renderBiasAnalysis(attempt);
+    renderGuessingAnalysis(attempt);
+    renderAttemptStrategy(attempt);
+    renderAnswerChangeAnalysis(attempt);
+    renderAttemptReplay(attempt);
     renderMistakesReview(attempt);
     renderAllQuestionsReview(attempt);
     renderDifficultyAnalysis(attempt);
+    refreshNotebookButtons(attempt);
     
     // 3. Reset Tab State (Default to Mistake Review)
     const reportTabs = document.querySelectorAll('.report-tab-btn');
@@ -2410,9 +6695,7 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
     if (retryFromReportBtn) {
         retryFromReportBtn.onclick = () => {
             if (attempt.fullTest) {
-                if (confirm(`🔄 Retry "${attempt.testName}"?\n\nThis will start a fresh attempt of the same test.`)) {
-                    startTest(attempt.fullTest);
-                }
+                openStartTestModal(attempt.fullTest);
             } else {
                 showToast({ message: 'Test data not available for retry.', type: 'warning' });
             }
@@ -2421,17 +6704,18 @@ function renderPerformanceReport(attempt: TestAttempt, fromHistory: boolean = tr
     
     // Delete from report button
     const deleteFromReportBtn = document.getElementById('delete-from-report-btn');
+    deleteFromReportBtn?.classList.toggle('hidden', !!attempt.fullTest.reviewSession); // Never saved, so nothing to delete
     if (deleteFromReportBtn) {
         deleteFromReportBtn.onclick = () => {
             if (confirm(`🗑️ Delete this result for "${attempt.testName}"?\n\nThis action cannot be undone.`)) {
-                const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+                const history = loadHistory();
                 const indexToDelete = history.findIndex(h => 
                     h.completedAt === attempt.completedAt && h.testName === attempt.testName
                 );
                 
                 if (indexToDelete !== -1) {
                     history.splice(indexToDelete, 1);
-                    saveToStorage('performanceHistory', history);
+                    if (saveHistory(history)) pruneQuestionBank();
                     showToast({ message: 'Result deleted successfully', type: 'success' });
                     
                     // Navigate back
@@ -2478,21 +6762,61 @@ function handleDownloadReport(attempt: TestAttempt) {
     const accuracy = attempted > 0 ? (attempt.correctAnswers / attempted) * 100 : 0;
     const timeTakenStr = new Date(attempt.timeTaken * 1000).toISOString().substr(11, 8);
     
+    const marks = scoreAnswers(attempt.fullTest, attempt.userAnswers);
     reportContent += `--- Overall Summary ---\n`;
     reportContent += `Score: ${attempt.score.toFixed(2)}%\n`;
+    reportContent += `Raw Marks: ${Number(marks.rawMarks.toFixed(2))} / ${Number(marks.maxMarks.toFixed(2))}\n`;
+    reportContent += `Marks Earned from Correct Answers: ${formatMarks(marks.earned)}\n`;
+    if (marks.bonus > 0) reportContent += `Bonus Marks (${marks.bonus} question(s)): ${formatMarks(marks.bonusMarks)}\n`;
+    reportContent += `Marks Lost to Negative Marking: −${marks.lostToNegatives.toFixed(2)}\n`;
+    if (marks.dropped > 0) reportContent += `Dropped Questions (not scored): ${marks.dropped}\n`;
+    const cutoff = compareWithCutoff(attempt);
+    reportContent += `Cut-off (${cutoff.profile.name}): ${cutoff.required.toFixed(2)} marks - ${cutoff.qualified ? 'QUALIFIED' : 'NOT QUALIFIED'}, `;
+    reportContent += `${cutoff.distance >= 0 ? `${cutoff.distance.toFixed(2)} above` : `${Math.abs(cutoff.distance).toFixed(2)} short`}\n`;
     reportContent += `Accuracy (on attempted): ${accuracy.toFixed(2)}%\n`;
     reportContent += `Correct Answers: ${attempt.correctAnswers}\n`;
     reportContent += `Incorrect Answers: ${attempt.incorrectAnswers}\n`;
     reportContent += `Unanswered: ${attempt.unanswered}\n`;
+    if (marks.bonus + marks.dropped > 0) reportContent += `Bonus / Dropped (scored apart from the above): ${marks.bonus + marks.dropped}\n`;
     reportContent += `Total Questions: ${attempt.totalQuestions}\n`;
     reportContent += `Time Taken: ${timeTakenStr}\n\n`;
 
+    const sections = sectionScores(attempt);
+    if (sections.length > 0) {
+        reportContent += `--- Section-wise Scores ---\n`;
+        sections.forEach(({ range, correct, incorrect, unanswered, bonus, dropped, rawMarks, maxMarks, lostToNegatives, timeUsed }) => {
+            reportContent += `${range.section.name} (Q${range.start + 1}-${range.end}): ${Number(rawMarks.toFixed(2))}/${Number(maxMarks.toFixed(2))} marks (−${Number(lostToNegatives.toFixed(2))} to negatives), `;
+            reportContent += `${correct} correct, ${incorrect} incorrect, ${unanswered} unanswered${bonus + dropped > 0 ? `, ${bonus + dropped} bonus/dropped` : ''}, time ${formatClock(Math.round(timeUsed))}`;
+            reportContent += `${range.section.duration ? ` of ${range.section.duration} min` : ''}\n`;
+        });
+        reportContent += `\n`;
+    }
+
+    if (attempt.keyRevisions?.length) {
+        reportContent += `--- Answer Key Revisions ---\n`;
+        attempt.keyRevisions.forEach(revision => {
+            reportContent += `${new Date(revision.revisedAt).toLocaleString()} Q${revision.questionIndex + 1}: ${revision.description}`;
+            reportContent += `${revision.reason ? ` (${revision.reason})` : ''} - score ${revision.scoreBefore.toFixed(2)}% -> ${revision.scoreAfter.toFixed(2)}%\n`;
+        });
+        reportContent += `\n`;
+    }
+
+    if (attempt.strict) {
+        const events = attempt.integrityEvents ?? [];
+        reportContent += `--- Strict Mode Integrity ---\n`;
+        reportContent += `Integrity Events: ${events.length}\n`;
+        events.forEach(event => {
+            reportContent += `${formatClock(Math.floor(event.at))} ${INTEGRITY_LABELS[event.type]} on Q${event.questionIndex + 1}`;
+            reportContent += `${event.duration !== undefined ? ` (${Math.round(event.duration)}s away)` : ''}\n`;
+        });
+        reportContent += `\n`;
+    }
+
     // Subject Breakdown
     reportContent += `--- Subject & Topic Breakdown ---\n`;
     const subjectStats: { [key: string]: { correct: number, total: number, topics: { [key: string]: { correct: number, total: number } } } } = {};
     attempt.fullTest.questions.forEach((q, i) => {
-        const subject = q.subject || 'Uncategorized';
-        const topic = q.topic || 'General';
+        const { subject, topic } = syllabusBuckets(q);
         if (!subjectStats[subject]) subjectStats[subject] = { correct: 0, total: 0, topics: {} };
         if (!subjectStats[subject].topics[topic]) subjectStats[subject].topics[topic] = { correct: 0, total: 0 };
         subjectStats[subject].total++;
@@ -2515,14 +6839,21 @@ function handleDownloadReport(attempt: TestAttempt) {
 
     // All Questions Review
     reportContent += `--- All Questions Review ---\n\n`;
+    const printedPassages = new Set<string>();
     attempt.fullTest.questions.forEach((q, index) => {
+        const passage = passageFor(attempt.fullTest, q);
+        if (passage && q.type === 'comprehension' && q.passageId && !printedPassages.has(q.passageId)) {
+            printedPassages.add(q.passageId);
+            reportContent += `=== ${passage.title || 'Passage'} (${passageQuestionLabel(attempt.fullTest, q.passageId)}) ===\n${passage.text}\n\n`;
+        }
          const userAnswer = attempt.userAnswers[index];
          let userStatus = '';
          if (userAnswer === q.answer) userStatus = 'Correct';
          else if (userAnswer !== null) userStatus = 'Incorrect';
          else userStatus = 'Unanswered';
 
-        reportContent += `Q${index + 1}: ${q.question} (${userStatus}) - Time: ${attempt.timePerQuestion[index].toFixed(1)}s\n`;
+        const questionMarks = q.scoring === 'dropped' ? 'dropped' : `${formatMarks(scoreQuestion(attempt.fullTest, index, userAnswer).marks)} marks${q.scoring === 'bonus' ? ', bonus' : ''}`;
+        reportContent += `Q${index + 1}: ${questionPlainText(q)} (${userStatus}, ${questionMarks}) - Time: ${attempt.timePerQuestion[index].toFixed(1)}s\n`;
         q.options.forEach((opt, optIndex) => {
             let marker = '[ ]';
             if (optIndex === q.answer && optIndex === userAnswer) marker = '[✓]'; // Correctly answered
@@ -2531,7 +6862,15 @@ function handleDownloadReport(attempt: TestAttempt) {
             
             reportContent += `  ${marker} ${opt}\n`;
         });
-        reportContent += `Explanation: ${q.explanation}\n\n`;
+        reportContent += `Explanation: ${q.explanation}\n`;
+        const analysis = cachedAnalysisFor(attempt, index);
+        if (analysis) {
+            reportContent += `AI Analysis: ${analysis.userAnswerAnalysis}\n`;
+            analysis.otherOptionsAnalysis?.forEach(opt => {
+                reportContent += `  - ${opt.option}: ${opt.reason}\n`;
+            });
+        }
+        reportContent += `\n`;
     });
     
     const blob = new Blob([reportContent], { type: 'text/plain;charset=utf-8' });
@@ -2675,7 +7014,7 @@ function renderTimeAnalysisCharts(attempt: TestAttempt) {
     // Subject Time Analysis
     const subjectTimes: { [key: string]: { totalTime: number; count: number; correct: number } } = {};
     attempt.fullTest.questions.forEach((q, i) => {
-        const subject = q.subject || 'Uncategorized';
+        const { subject } = syllabusBuckets(q);
         if (!subjectTimes[subject]) {
             subjectTimes[subject] = { totalTime: 0, count: 0, correct: 0 };
         }
@@ -2791,8 +7130,7 @@ function renderSubjectBreakdown(attempt: TestAttempt) {
     const subjectStats: { [key: string]: { correct: number, total: number, incorrect: number, unanswered: number, totalTime: number, topics: { [key: string]: { correct: number, total: number } } } } = {};
     
     attempt.fullTest.questions.forEach((q, i) => {
-        const subject = q.subject || 'Uncategorized';
-        const topic = q.topic || 'General';
+        const { subject, topic } = syllabusBuckets(q);
 
         if (!subjectStats[subject]) {
             subjectStats[subject] = { correct: 0, total: 0, incorrect: 0, unanswered: 0, totalTime: 0, topics: {} };
@@ -2879,8 +7217,7 @@ function renderTopicWiseAnalysis(attempt: TestAttempt) {
     const topicStats: { [key: string]: { correct: number, total: number, subject: string, avgTime: number, totalTime: number } } = {};
     
     attempt.fullTest.questions.forEach((q, i) => {
-        const topic = q.topic || 'General';
-        const subject = q.subject || 'Uncategorized';
+        const { subject, topic } = syllabusBuckets(q);
         
         if (!topicStats[topic]) {
             topicStats[topic] = { correct: 0, total: 0, subject, avgTime: 0, totalTime: 0 };
@@ -2913,53 +7250,20 @@ function renderTopicWiseAnalysis(attempt: TestAttempt) {
         }))
         .sort((a, b) => b.accuracy - a.accuracy);
     
-    // Find strongest and weakest topics
-    const strongTopics = sortedTopics.filter(t => t.accuracy >= 70).slice(0, 3);
-    const weakTopics = sortedTopics.filter(t => t.accuracy < 50).slice(-3).reverse();
-    
-    topicWiseContainer.innerHTML = `
-        <div class="topic-insights-grid enhanced">
-            <div class="insight-card strength">
-                <div class="insight-card-header">
-                    <span class="material-symbols-outlined">trending_up</span>
-                    <h4>Strong Topics</h4>
-                </div>
-                ${strongTopics.length > 0 ? strongTopics.map((t, idx) => `
-                    <div class="insight-item">
-                        <div class="insight-rank">#${idx + 1}</div>
-                        <div class="insight-content">
-                            <div class="topic-name">${t.topic}</div>
-                            <div class="topic-meta">
-                                <span>${t.subject}</span> • 
-                                <span>${t.correct}/${t.total} correct</span> • 
-                                <span>${t.avgTime.toFixed(1)}s avg</span>
-                            </div>
-                        </div>
-                        <div class="topic-score success">${t.accuracy.toFixed(0)}%</div>
-                    </div>
-                `).join('') : '<p class="no-data">Complete more questions to identify strong topics</p>'}
-            </div>
-            <div class="insight-card weakness">
-                <div class="insight-card-header">
-                    <span class="material-symbols-outlined">trending_down</span>
-                    <h4>Need Improvement</h4>
-                </div>
-                ${weakTopics.length > 0 ? weakTopics.map((t, idx) => `
-                    <div class="insight-item">
-                        <div class="insight-rank warn">#${weakTopics.length - idx}</div>
-                        <div class="insight-content">
-                            <div class="topic-name">${t.topic}</div>
-                            <div class="topic-meta">
-                                <span>${t.subject}</span> • 
-                                <span>${t.correct}/${t.total} correct</span> • 
-                                <span>${t.avgTime.toFixed(1)}s avg</span>
-                            </div>
-                        </div>
-                        <div class="topic-score danger">${t.accuracy.toFixed(0)}%</div>
-                    </div>
-                `).join('') : '<p class="no-data">Great! No weak topics found</p>'}
-            </div>
-        </div>
+    // Strong and weak topics come from the mastery model as it stood after this attempt,
+    // limited to the topics the attempt covered
+    const attemptTime = new Date(attempt.completedAt).getTime();
+    const priorHistory = loadHistory().filter(h => new Date(h.completedAt).getTime() <= attemptTime);
+    const isStored = priorHistory.some(h => h.completedAt === attempt.completedAt && h.testName === attempt.testName);
+    const attemptTopics = new Set(attempt.fullTest.questions.map(q => {
+        const { subject, topic } = syllabusBuckets(q);
+        return `${subject}\u0000${topic}`;
+    }));
+    const attemptMastery = estimateTopicMastery(isStored ? priorHistory : [...priorHistory, attempt])
+        .filter(mastery => attemptTopics.has(`${mastery.subject}\u0000${mastery.topic}`));
+    
+    topicWiseContainer.innerHTML = `
+        ${renderMasteryInsights(attemptMastery, 3, true)}
         
         <div class="chart-section">
             <h4><span class="material-symbols-outlined">topic</span> All Topics Performance</h4>
@@ -3007,7 +7311,8 @@ function renderBiasAnalysis(attempt: TestAttempt) {
     const answerPattern: string[] = [];
     
     attempt.userAnswers.forEach((answer, i) => {
-        if (answer !== null) {
+        // Bias is measured over the A–D positions; extra options (possible in edited questions) are ignored
+        if (answer !== null && answer < optionCounts.length) {
             optionCounts[answer]++;
             totalAnswered++;
             answerPattern.push(String.fromCharCode(65 + answer));
@@ -3024,7 +7329,7 @@ function renderBiasAnalysis(attempt: TestAttempt) {
         
         // Track correct answer distribution
         const correctAns = attempt.fullTest.questions[i].answer;
-        correctOptionCounts[correctAns]++;
+        if (correctAns < correctOptionCounts.length) correctOptionCounts[correctAns]++;
     });
     
     // Calculate bias metrics
@@ -3132,7 +7437,840 @@ function renderBiasAnalysis(attempt: TestAttempt) {
     `;
 }
 
+// Guessing Analysis
+// Net marks per attempted question
+function marksPerAttempt(netMarks: number, attempted: number): number | null {
+    return attempted > 0 ? netMarks / attempted : null;
+}
+
+const formatMarks = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+function renderGuessingAnalysis(attempt: TestAttempt) {
+    const container = document.getElementById('confidence-analysis-view');
+    if (!container) return;
+
+    const test = attempt.fullTest;
+    const marks = test.marksPerQuestion || 1;
+    const negative = test.negativeMarking || 0;
+    const breakEven = negative > 0 ? (negative / (marks + negative)) * 100 : 0;
+
+    type Bucket = { attempted: number; correct: number; netMarks: number; randomExpectation: number };
+    const emptyBucket = (): Bucket => ({ attempted: 0, correct: 0, netMarks: 0, randomExpectation: 0 });
+    const ranges = sectionRanges(test);
+    const byConfidence = {} as Record<Confidence, Bucket>;
+    CONFIDENCE_LEVELS.forEach(level => byConfidence[level] = emptyBucket());
+    const byEliminated: Bucket[] = [];
+    let unmarked = 0;
+
+    test.questions.forEach((q, i) => {
+        const answer = attempt.userAnswers[i];
+        // Bonus and dropped questions score the same whatever was answered
+        if (answer === null || q.scoring) return;
+        const correct = isAnswerCorrect(q, answer);
+        const netMarks = scoreQuestion(test, i, answer, ranges).marks;
+        const marking = markingFor(test, i, ranges);
+        const level = attempt.confidence?.[i];
+        if (level) {
+            byConfidence[level].attempted++;
+            byConfidence[level].netMarks += netMarks;
+            if (correct) byConfidence[level].correct++;
+        } else {
+            unmarked++;
+        }
+
+        const eliminated = attempt.eliminations?.[i]?.length ?? 0;
+        const remaining = Math.max(1, q.options.length - eliminated);
+        if (!byEliminated[eliminated]) byEliminated[eliminated] = emptyBucket();
+        const bucket = byEliminated[eliminated];
+        bucket.attempted++;
+        bucket.netMarks += netMarks;
+        if (correct) bucket.correct++;
+        // What a blind pick among the options left would have earned
+        bucket.randomExpectation += (marking.marks - (remaining - 1) * marking.negative) / remaining;
+    });
+
+    const markedCount = CONFIDENCE_LEVELS.reduce((sum, level) => sum + byConfidence[level].attempted, 0);
+    const usedElimination = byEliminated.some((bucket, count) => count > 0 && bucket?.attempted);
+    if (markedCount === 0 && !usedElimination) {
+        container.innerHTML = `
+            <div class="difficulty-overview">
+                <h4><span class="material-symbols-outlined">casino</span> Guessing Analysis</h4>
+                <p class="analysis-description">No confidence levels or eliminated options were recorded in this attempt. Mark each answer as Sure, 50-50 or Guess (keys S, F, G) and strike out options you rule out to see where guessing pays off under ${formatMarks(marks)} / −${negative} marking.</p>
+            </div>
+        `;
+        return;
+    }
+
+    const icons: Record<Confidence, string> = { sure: 'verified', fiftyFifty: 'balance', guess: 'casino' };
+    const cardsHTML = CONFIDENCE_LEVELS.map(level => {
+        const { attempted, correct, netMarks } = byConfidence[level];
+        const accuracy = attempted > 0 ? (correct / attempted) * 100 : null;
+        const net = marksPerAttempt(netMarks, attempted);
+        return `
+            <div class="difficulty-card ${level}">
+                <div class="difficulty-header">
+                    <span class="material-symbols-outlined">${icons[level]}</span>
+                    <h5>${CONFIDENCE_LABELS[level]}</h5>
+                </div>
+                <div class="difficulty-stats">
+                    <div class="big-stat">${attempted}</div>
+                    <div class="stat-detail">${attempted > 0 ? `${correct} correct • ${formatMarks(netMarks)} marks` : 'None marked'}</div>
+                </div>
+                <div class="difficulty-accuracy">
+                    <div class="accuracy-bar" style="--accuracy: ${accuracy ?? 0}%">
+                        <div class="accuracy-fill" style="background: ${net !== null && net > 0 ? 'var(--success-color)' : 'var(--danger-color)'}"></div>
+                    </div>
+                    <span>${accuracy !== null ? `${accuracy.toFixed(0)}% accurate • ${formatMarks(net)} per attempt` : '—'}</span>
+                </div>
+            </div>
+        `;
+    }).join('');
+
+    const eliminationRows = byEliminated.map((bucket, count) => {
+        if (!bucket?.attempted) return '';
+        const net = marksPerAttempt(bucket.netMarks, bucket.attempted);
+        const random = bucket.randomExpectation / bucket.attempted;
+        return `
+            <tr>
+                <td>${count === 0 ? 'None' : count}</td>
+                <td>${bucket.attempted}</td>
+                <td>${((bucket.correct / bucket.attempted) * 100).toFixed(0)}%</td>
+                <td class="${net > 0 ? 'positive' : 'negative'}">${formatMarks(net)}</td>
+                <td class="${random > 0 ? 'positive' : 'negative'}">${formatMarks(random)}</td>
+            </tr>
+        `;
+    }).join('');
+
+    // The lowest confidence level that still earns marks decides the advice
+    const net = (level: Confidence) => marksPerAttempt(byConfidence[level].netMarks, byConfidence[level].attempted);
+    const guessNet = net('guess');
+    const fiftyNet = net('fiftyFifty');
+    let insight = { trend: 'neutral', icon: 'insights', title: 'Keep Marking Confidence', text: 'Mark more answers with a confidence level to find out which of your guesses are worth taking.' };
+    if (guessNet !== null && guessNet > 0) {
+        insight = { trend: 'positive', icon: 'trending_up', title: 'Your Guesses Pay Off', text: `Even your pure guesses earned ${formatMarks(guessNet)} marks each — above the ${breakEven.toFixed(0)}% break-even accuracy. Your instinct is better than random, so attempt rather than skip.` };
+    } else if (fiftyNet !== null && fiftyNet > 0) {
+        insight = { trend: 'positive', icon: 'balance', title: 'Attempt 50-50s, Skip Blind Guesses', text: `Your 50-50 answers earned ${formatMarks(fiftyNet)} marks each${guessNet !== null ? `, while pure guesses cost ${Math.abs(guessNet).toFixed(2)}` : ''}. Attempt once you have narrowed it to two options.` };
+    } else if (fiftyNet !== null) {
+        insight = { trend: 'negative', icon: 'warning', title: 'Guessing Is Costing You Marks', text: `Your 50-50 answers lost ${Math.abs(fiftyNet).toFixed(2)} marks each. Below ${breakEven.toFixed(0)}% accuracy an attempt loses marks — eliminate more options before answering, or skip.` };
+    }
+
+    container.innerHTML = `
+        <div class="difficulty-overview">
+            <h4><span class="material-symbols-outlined">casino</span> Accuracy by Confidence</h4>
+            <p class="analysis-description">
+                Marking: ${formatMarks(marks)} correct / −${negative} wrong${hasMixedMarking(test) ? ' (test default; questions with their own marking are scored by it)' : ''}. ${negative > 0 ? `An attempt is profitable above ${breakEven.toFixed(1)}% accuracy.` : 'With no negative marking every attempt is profitable.'}
+                ${unmarked > 0 ? ` ${unmarked} answered question(s) had no confidence level.` : ''}
+            </p>
+        </div>
+        <div class="difficulty-grid">${cardsHTML}</div>
+        <div class="insight-box ${insight.trend}">
+            <span class="material-symbols-outlined">${insight.icon}</span>
+            <div class="insight-content">
+                <h5>${insight.title}</h5>
+                <p>${insight.text}</p>
+            </div>
+        </div>
+        <div class="difficulty-overview elimination-overview">
+            <h4><span class="material-symbols-outlined">strikethrough_s</span> Accuracy by Options Eliminated</h4>
+            <p class="analysis-description">Marks per attempt compared with a blind pick among the options you left standing.</p>
+        </div>
+        <table class="elimination-table">
+            <thead>
+                <tr><th>Eliminated</th><th>Attempted</th><th>Accuracy</th><th>Your marks / attempt</th><th>Random pick / attempt</th></tr>
+            </thead>
+            <tbody>${eliminationRows}</tbody>
+        </table>
+    `;
+}
+
+// --- Attempt Strategy ---
+type AttemptRule = 'all' | 'fiftyFiftyUp' | 'sureOnly';
+type AnswerLevel = Confidence | 'unmarked'; // Answered without a confidence level
+
+const ATTEMPT_RULES: AttemptRule[] = ['all', 'fiftyFiftyUp', 'sureOnly'];
+const ATTEMPT_RULE_LABELS: Record<AttemptRule, string> = {
+    all: 'Attempt everything',
+    fiftyFiftyUp: 'Attempt 50-50 or better',
+    sureOnly: 'Attempt only Sure'
+};
+
+// Assumed accuracy before any history; small samples are pulled towards it
+const PRIOR_ACCURACY: Record<AnswerLevel, number> = { sure: 0.85, fiftyFifty: 0.5, guess: 0.25, unmarked: 0.6 };
+const PRIOR_WEIGHT = 5;
+
+interface AccuracyTally {
+    attempted: number;
+    correct: number;
+}
+
+interface AccuracyModel {
+    answers: number;
+    byLevel: Record<AnswerLevel, AccuracyTally>;
+    bySubject: Record<string, Partial<Record<AnswerLevel, AccuracyTally>>>;
+}
+
+interface AttemptStrategy {
+    rule: AttemptRule;
+    skipSubject: string | null;
+}
+
+// One question of an attempt, ready to be attempted or skipped by a strategy
+interface StrategyQuestion {
+    subject: string;
+    level: AnswerLevel | null; // null when left unanswered
+    expected: number; // Expected marks if attempted, from the accuracy model
+    actual: number; // Marks actually earned; the expectation for unanswered questions
+    fixed: boolean; // Bonus and dropped questions score the same whatever is attempted
+    maxMarks: number;
+}
+
+interface StrategyResult {
+    strategy: AttemptStrategy;
+    attempted: number;
+    expected: number;
+    whatIf: number;
+    maxMarks: number;
+}
+
+const answerLevel = (attempt: TestAttempt, index: number): AnswerLevel | null =>
+    attempt.userAnswers[index] === null ? null : attempt.confidence?.[index] ?? 'unmarked';
+
+// Unanswered questions can only be attempted as guesses
+const ruleAttempts = (rule: AttemptRule, level: AnswerLevel | null) =>
+    rule === 'all' || (rule === 'fiftyFiftyUp' ? level !== null && level !== 'guess' : level === 'sure');
+
+const strategyLabel = ({ rule, skipSubject }: AttemptStrategy) =>
+    skipSubject ? `${ATTEMPT_RULE_LABELS[rule]}, skip ${skipSubject}` : ATTEMPT_RULE_LABELS[rule];
+
+function buildAccuracyModel(history: TestAttempt[]): AccuracyModel {
+    const emptyTally = (): AccuracyTally => ({ attempted: 0, correct: 0 });
+    const model: AccuracyModel = {
+        answers: 0,
+        byLevel: { sure: emptyTally(), fiftyFifty: emptyTally(), guess: emptyTally(), unmarked: emptyTally() },
+        bySubject: {}
+    };
+    history.forEach(attempt => attempt.fullTest.questions.forEach((q, i) => {
+        const level = answerLevel(attempt, i);
+        if (!level || q.scoring) return;
+        const correct = isAnswerCorrect(q, attempt.userAnswers[i]);
+        const subjectLevels = model.bySubject[syllabusBuckets(q).subject] ??= {};
+        [model.byLevel[level], subjectLevels[level] ??= emptyTally()].forEach(tally => {
+            tally.attempted++;
+            if (correct) tally.correct++;
+        });
+        model.answers++;
+    }));
+    return model;
+}
+
+// Accuracy at a confidence level, shrunk towards the prior and then the subject's towards the level's
+function estimatedAccuracy(model: AccuracyModel, level: AnswerLevel, subject?: string): number {
+    const overall = model.byLevel[level];
+    const levelAccuracy = (overall.correct + PRIOR_WEIGHT * PRIOR_ACCURACY[level]) / (overall.attempted + PRIOR_WEIGHT);
+    const tally = subject ? model.bySubject[subject]?.[level] : undefined;
+    if (!tally) return levelAccuracy;
+    return (tally.correct + PRIOR_WEIGHT * levelAccuracy) / (tally.attempted + PRIOR_WEIGHT);
+}
+
+function strategyQuestions(attempt: TestAttempt, model: AccuracyModel): StrategyQuestion[] {
+    const test = attempt.fullTest;
+    const ranges = sectionRanges(test);
+    return test.questions.map((q, i) => {
+        const answer = attempt.userAnswers[i];
+        const score = scoreQuestion(test, i, answer, ranges);
+        const level = answerLevel(attempt, i);
+        const subject = syllabusBuckets(q).subject;
+        const { marks, negative } = markingFor(test, i, ranges);
+        const accuracy = estimatedAccuracy(model, level ?? 'guess', subject);
+        const expected = q.scoring ? score.marks : accuracy * marks - (1 - accuracy) * negative;
+        return { subject, level, expected, actual: answer === null && !q.scoring ? expected : score.marks, fixed: !!q.scoring, maxMarks: score.maxMarks };
+    });
+}
+
+function simulateStrategy(questions: StrategyQuestion[], strategy: AttemptStrategy): StrategyResult {
+    const result: StrategyResult = { strategy, attempted: 0, expected: 0, whatIf: 0, maxMarks: 0 };
+    questions.forEach(q => {
+        result.maxMarks += q.maxMarks;
+        if (q.fixed) {
+            result.expected += q.expected;
+            result.whatIf += q.actual;
+            return;
+        }
+        if (q.subject === strategy.skipSubject || !ruleAttempts(strategy.rule, q.level)) return;
+        result.attempted++;
+        result.expected += q.expected;
+        result.whatIf += q.actual;
+    });
+    return result;
+}
+
+// The confidence rules, plus skipping each subject under the best rule where that gains marks. Best first.
+function compareStrategies(questions: StrategyQuestion[]): StrategyResult[] {
+    const rules = ATTEMPT_RULES.map(rule => simulateStrategy(questions, { rule, skipSubject: null }));
+    const best = rules.reduce((a, b) => (b.expected > a.expected ? b : a));
+    const subjects = [...new Set(questions.map(q => q.subject))];
+    const skips = subjects
+        .map(subject => simulateStrategy(questions, { rule: best.strategy.rule, skipSubject: subject }))
+        .filter(result => result.expected > best.expected + 0.005);
+    return [...rules, ...skips].sort((a, b) => b.expected - a.expected);
+}
+
+const marksPercentage = (marks: number, maxMarks: number) => (maxMarks > 0 ? Math.max(0, (marks / maxMarks) * 100) : 0);
+
+function renderAttemptStrategy(attempt: TestAttempt) {
+    const container = document.getElementById('strategy-view');
+    if (!container) return;
+
+    const model = buildAccuracyModel(loadHistory());
+    const questions = strategyQuestions(attempt, model);
+    const results = compareStrategies(questions);
+    const best = results[0];
+    const actual = attemptMarks(attempt);
+    const test = attempt.fullTest;
+    const marks = test.marksPerQuestion || 1;
+    const negative = test.negativeMarking || 0;
+    const breakEven = negative > 0 ? (negative / (marks + negative)) * 100 : 0;
+    const subjects = [...new Set(questions.filter(q => !q.fixed).map(q => q.subject))].sort();
+    const gain = best.whatIf - actual.raw;
+
+    const rows = results.map(result => {
+        const diff = result.whatIf - actual.raw;
+        return `
+            <tr class="${result === best ? 'recommended' : ''}">
+                <td class="answer-trail">${strategyLabel(result.strategy)}${result === best ? ' <small>Recommended</small>' : ''}</td>
+                <td>${result.attempted}</td>
+                <td class="${result.expected >= 0 ? 'positive' : 'negative'}">${formatMarks(result.expected)}</td>
+                <td>${formatMarks(result.whatIf)}</td>
+                <td class="${diff >= 0 ? 'positive' : 'negative'}">${formatMarks(diff)}</td>
+            </tr>
+        `;
+    }).join('');
+
+    const levelRows = ([...CONFIDENCE_LEVELS, 'unmarked'] as AnswerLevel[]).map(level => {
+        const accuracy = estimatedAccuracy(model, level) * 100;
+        return `
+            <tr>
+                <td>${level === 'unmarked' ? 'No level' : CONFIDENCE_LABELS[level]}</td>
+                <td>${model.byLevel[level].attempted}</td>
+                <td class="${accuracy > breakEven ? 'positive' : 'negative'}">${accuracy.toFixed(0)}%</td>
+            </tr>
+        `;
+    }).join('');
+
+    const insight = gain > 0.005
+        ? { trend: 'positive', icon: 'tips_and_updates', text: `${strategyLabel(best.strategy)} is expected to score best on this test. Applied to this attempt it would have given ${formatMarks(best.whatIf)} marks instead of ${formatMarks(actual.raw)}.` }
+        : { trend: 'neutral', icon: 'check_circle', text: `${strategyLabel(best.strategy)} is expected to score best on this test, and it would not have beaten the ${formatMarks(actual.raw)} marks you scored.` };
+
+    container.innerHTML = `
+        <div class="difficulty-overview">
+            <h4><span class="material-symbols-outlined">strategy</span> Attempt Strategy</h4>
+            <p class="analysis-description">
+                Expected marks use your accuracy at each confidence level and subject across ${model.answers} past answer(s)${model.answers < 20 ? ', leaning on default assumptions until more are recorded' : ''}.
+                What-if marks replay this attempt with the strategy: answers keep their real outcome and skipped questions attempted as guesses count at their expected value.
+                ${negative > 0 ? `Under ${formatMarks(marks)} / −${negative} marking an attempt pays off above ${breakEven.toFixed(1)}% accuracy.` : 'With no negative marking every attempt pays off.'}
+            </p>
+        </div>
+        <div class="insight-box ${insight.trend}">
+            <span class="material-symbols-outlined">${insight.icon}</span>
+            <div class="insight-content">
+                <h5>${strategyLabel(best.strategy)}</h5>
+                <p>${insight.text}</p>
+            </div>
+        </div>
+        <table class="elimination-table strategy-table">
+            <thead>
+                <tr><th>Strategy</th><th>Attempted</th><th>Expected marks</th><th>What-if marks</th><th>vs your ${formatMarks(actual.raw)}</th></tr>
+            </thead>
+            <tbody>${rows}</tbody>
+        </table>
+        <div class="difficulty-overview elimination-overview">
+            <h4><span class="material-symbols-outlined">tune</span> What If</h4>
+            <p class="analysis-description">Pick which answers to keep and which subjects to leave out to recompute this attempt's score.</p>
+        </div>
+        <div class="strategy-whatif">
+            <select id="whatif-rule-select" title="Answers to keep">
+                ${ATTEMPT_RULES.map(rule => `<option value="${rule}" ${rule === best.strategy.rule ? 'selected' : ''}>${ATTEMPT_RULE_LABELS[rule]}</option>`).join('')}
+            </select>
+            <div class="strategy-subjects">
+                ${subjects.map(subject => `
+                    <label class="passage-mode-option">
+                        <input type="checkbox" value="${subject}" ${subject === best.strategy.skipSubject ? 'checked' : ''}> Skip ${subject}
+                    </label>
+                `).join('')}
+            </div>
+            <div class="strategy-whatif-result" id="whatif-result"></div>
+        </div>
+        <div class="difficulty-overview elimination-overview">
+            <h4><span class="material-symbols-outlined">query_stats</span> Accuracy Used</h4>
+            <p class="analysis-description">Estimated accuracy per confidence level across all subjects. Green levels clear the break-even for this test's default marking.</p>
+        </div>
+        <table class="elimination-table">
+            <thead>
+                <tr><th>Confidence</th><th>Past answers</th><th>Estimated accuracy</th></tr>
+            </thead>
+            <tbody>${levelRows}</tbody>
+        </table>
+    `;
+
+    const whatIf = container.querySelector('.strategy-whatif') as HTMLElement;
+    const updateWhatIf = () => {
+        const rule = (whatIf.querySelector('#whatif-rule-select') as HTMLSelectElement).value as AttemptRule;
+        const skipped = new Set(Array.from(whatIf.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked')).map(input => input.value));
+        // Several skipped subjects at once, so the questions are filtered here rather than per strategy
+        const result = simulateStrategy(questions.filter(q => q.fixed || !skipped.has(q.subject)), { rule, skipSubject: null });
+        const diff = result.whatIf - actual.raw;
+        (whatIf.querySelector('#whatif-result') as HTMLElement).innerHTML = `
+            <div class="bias-stats-row">
+                <div class="bias-stat"><span class="bias-stat-value">${result.attempted}</span><span class="bias-stat-label">Attempted</span></div>
+                <div class="bias-stat"><span class="bias-stat-value">${formatMarks(result.whatIf)} / ${Number(actual.max.toFixed(2))}</span><span class="bias-stat-label">What-if marks</span></div>
+                <div class="bias-stat"><span class="bias-stat-value">${marksPercentage(result.whatIf, actual.max).toFixed(1)}%</span><span class="bias-stat-label">Score</span></div>
+                <div class="bias-stat"><span class="bias-stat-value" style="color: ${diff >= 0 ? 'var(--success-color)' : 'var(--danger-color)'}">${formatMarks(diff)}</span><span class="bias-stat-label">vs actual</span></div>
+            </div>
+        `;
+    };
+    whatIf.addEventListener('change', updateWhatIf);
+    updateWhatIf();
+}
+
+type SwitchKind = 'wrongToRight' | 'rightToWrong' | 'wrongToWrong' | 'withdrawn' | 'returned';
+
+const SWITCH_LABELS: Record<SwitchKind, string> = {
+    wrongToRight: 'Wrong → Right',
+    rightToWrong: 'Right → Wrong',
+    wrongToWrong: 'Wrong → Wrong',
+    withdrawn: 'Answer withdrawn',
+    returned: 'Back to first answer'
+};
+
+// Compares the first answer given with the final one
+function classifySwitch(q: Question, first: number, final: number | null): SwitchKind {
+    if (final === null) return 'withdrawn';
+    if (final === first) return 'returned';
+    const firstRight = isAnswerCorrect(q, first);
+    const finalRight = isAnswerCorrect(q, final);
+    return firstRight ? 'rightToWrong' : finalRight ? 'wrongToRight' : 'wrongToWrong';
+}
+
+const optionLetter = (option: number | null) => (option === null ? '—' : String.fromCharCode(65 + option));
+
+function renderAnswerChangeAnalysis(attempt: TestAttempt) {
+    const container = document.getElementById('answer-changes-view');
+    if (!container) return;
+
+    if (!attempt.answerChanges || !attempt.visits) {
+        container.innerHTML = `<p class="no-data">Answer changes were not recorded for this attempt. They are tracked for attempts taken from now on.</p>`;
+        return;
+    }
+
+    const test = attempt.fullTest;
+    const ranges = sectionRanges(test);
+    const marksFor = (index: number, answer: number | null) => scoreQuestion(test, index, answer, ranges).marks;
+
+    // Questions whose answer was changed after first being given
+    const switched = test.questions.map((q, i) => {
+        const answers = attempt.answerChanges.filter(change => change.questionIndex === i && change.to !== null);
+        const changes = attempt.answerChanges.filter(change => change.questionIndex === i);
+        if (answers.length === 0 || changes.length < 2) return null;
+        const first = answers[0].to;
+        const final = attempt.userAnswers[i];
+        return { index: i, changes, kind: classifySwitch(q, first, final), delta: marksFor(i, final) - marksFor(i, first) };
+    }).filter(Boolean);
+
+    const counts = {} as Record<SwitchKind, number>;
+    (Object.keys(SWITCH_LABELS) as SwitchKind[]).forEach(kind => counts[kind] = switched.filter(item => item.kind === kind).length);
+    const netEffect = switched.reduce((sum, item) => sum + item.delta, 0);
+
+    const visitsByQuestion = test.questions.map((_, i) => attempt.visits.filter(visit => visit.questionIndex === i));
+    const revisited = visitsByQuestion.map((visits, index) => ({ index, visits })).filter(item => item.visits.length > 1);
+    const visitedCount = visitsByQuestion.filter(visits => visits.length > 0).length;
+
+    let insight = { trend: 'neutral', icon: 'insights', title: 'Few Changes', text: 'You rarely changed answers in this attempt, so there is not enough evidence either way.' };
+    if (counts.rightToWrong > counts.wrongToRight) {
+        insight = { trend: 'negative', icon: 'undo', title: 'Second-Guessing Cost You', text: `You changed ${counts.rightToWrong} right answer(s) to wrong but only ${counts.wrongToRight} wrong answer(s) to right. Unless you find a concrete error, stick with your first answer.` };
+    } else if (counts.wrongToRight > counts.rightToWrong) {
+        insight = { trend: 'positive', icon: 'published_with_changes', title: 'Your Reviews Pay Off', text: `You fixed ${counts.wrongToRight} wrong answer(s) and broke ${counts.rightToWrong}. Keep reserving time to review marked questions.` };
+    } else if (switched.length > 0) {
+        insight = { trend: 'neutral', icon: 'balance', title: 'Changes Broke Even', text: 'Your answer changes gained as many answers as they lost. Change an answer only when you can say why the first one was wrong.' };
+    }
+
+    const summaryCards = (['wrongToRight', 'rightToWrong', 'wrongToWrong'] as SwitchKind[]).map(kind => `
+        <div class="bias-stat switch-stat ${kind}">
+            <span class="bias-stat-value">${counts[kind]}</span>
+            <span class="bias-stat-label">${SWITCH_LABELS[kind]}</span>
+        </div>
+    `).join('');
+
+    const formatVisit = (visit: QuestionVisit) => `${formatClock(Math.floor(visit.at))} (${Math.round(visit.duration)}s)`;
+
+    container.innerHTML = `
+        <div class="difficulty-overview">
+            <h4><span class="material-symbols-outlined">swap_horiz</span> Answer Changes</h4>
+            <p class="analysis-description">
+                ${switched.length} question(s) had their answer changed •
+                net effect ${formatMarks(netEffect)} marks compared with keeping every first answer
+            </p>
+        </div>
+        <div class="bias-stats-row">${summaryCards}</div>
+        <div class="insight-box ${insight.trend}">
+            <span class="material-symbols-outlined">${insight.icon}</span>
+            <div class="insight-content">
+                <h5>${insight.title}</h5>
+                <p>${insight.text}</p>
+            </div>
+        </div>
+        ${switched.length > 0 ? `
+            <table class="elimination-table answer-change-table">
+                <thead>
+                    <tr><th>Question</th><th>Answers (time)</th><th>Outcome</th><th>Marks</th></tr>
+                </thead>
+                <tbody>
+                    ${switched.map(item => `
+                        <tr>
+                            <td>Q${item.index + 1}</td>
+                            <td class="answer-trail">${item.changes.map(change => `${optionLetter(change.to)} <small>${formatClock(Math.floor(change.at))}</small>`).join(' → ')}</td>
+                            <td><span class="switch-badge ${item.kind}">${SWITCH_LABELS[item.kind]}</span></td>
+                            <td class="${item.delta > 0 ? 'positive' : item.delta < 0 ? 'negative' : ''}">${formatMarks(item.delta)}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        ` : ''}
+        <div class="difficulty-overview elimination-overview">
+            <h4><span class="material-symbols-outlined">replay</span> Revisits</h4>
+            <p class="analysis-description">
+                ${visitedCount} of ${test.questions.length} questions visited • ${revisited.length} revisited •
+                ${attempt.visits.length} visits in total
+            </p>
+        </div>
+        ${revisited.length > 0 ? `
+            <table class="elimination-table">
+                <thead>
+                    <tr><th>Question</th><th>Visits</th><th>Visit times (time spent)</th><th>Final</th></tr>
+                </thead>
+                <tbody>
+                    ${revisited.sort((a, b) => b.visits.length - a.visits.length).map(({ index, visits }) => {
+                        const answer = attempt.userAnswers[index];
+                        const result = answer === null ? 'Unanswered' : isAnswerCorrect(test.questions[index], answer) ? 'Correct' : 'Incorrect';
+                        return `
+                            <tr>
+                                <td>Q${index + 1}</td>
+                                <td>${visits.length}</td>
+                                <td class="answer-trail">${visits.map(formatVisit).join(', ')}</td>
+                                <td class="${result === 'Correct' ? 'positive' : result === 'Incorrect' ? 'negative' : ''}">${result}</td>
+                            </tr>
+                        `;
+                    }).join('')}
+                </tbody>
+            </table>
+        ` : ''}
+    `;
+}
+
+// --- Attempt Replay ---
+interface ReplayState {
+    current: number;
+    answers: (number | null)[];
+    marked: Set<number>;
+    visited: Set<number>;
+    eliminated: number[][];
+    confidence: (Confidence | null)[];
+    paused: boolean;
+    idle: boolean;
+    eventIndex: number; // Index of the latest event at or before the time, -1 before the first
+}
+
+const EVENT_LABELS: Record<AttemptEventType, string> = {
+    start: 'Started', next: 'Next', prev: 'Previous', jump: 'Jumped', section: 'Next section',
+    answer: 'Answered', clear: 'Cleared response', mark: 'Marked for review', eliminate: 'Eliminated option',
+    confidence: 'Set confidence', check: 'Checked answer', idle: 'Went idle', active: 'Back from idle',
+    pause: 'Paused', resume: 'Resumed', submit: 'Submitted'
+};
+
+// Applies the log up to time (in deciseconds) to rebuild what the attempt looked like at that moment
+function attemptStateAt(events: AttemptEvent[], questionCount: number, time: number): ReplayState {
+    const state: ReplayState = {
+        current: 0,
+        answers: Array(questionCount).fill(null),
+        marked: new Set(),
+        visited: new Set(),
+        eliminated: Array.from({ length: questionCount }, () => []),
+        confidence: Array(questionCount).fill(null),
+        paused: false,
+        idle: false,
+        eventIndex: -1
+    };
+    for (let i = 0; i < events.length && events[i][0] <= time; i++) {
+        const [, type, index, value] = events[i];
+        state.eventIndex = i;
+        if (type !== 'idle') state.idle = false;
+        switch (type) {
+            case 'answer': state.answers[index] = value >= 0 ? value : null; break;
+            case 'mark': state.marked.add(index); break;
+            case 'eliminate': {
+                const eliminated = state.eliminated[index];
+                state.eliminated[index] = eliminated.includes(value) ? eliminated.filter(o => o !== value) : [...eliminated, value];
+                break;
+            }
+            case 'confidence': state.confidence[index] = CONFIDENCE_LEVELS[value] ?? null; break;
+            case 'idle': state.idle = true; break;
+            case 'pause': state.paused = true; break;
+            case 'resume': state.paused = false; break;
+            default:
+                if (ARRIVAL_EVENTS.includes(type)) {
+                    state.current = index;
+                    state.visited.add(index);
+                }
+        }
+    }
+    return state;
+}
+
+function describeEvent([, type, index, value]: AttemptEvent): string {
+    switch (type) {
+        case 'answer': return value >= 0 ? `Answered ${optionLetter(value)} on Q${index + 1}` : `Removed answer on Q${index + 1}`;
+        case 'eliminate': return `Toggled elimination of ${optionLetter(value)} on Q${index + 1}`;
+        case 'confidence': return `Set Q${index + 1} to ${CONFIDENCE_LEVELS[value] ? CONFIDENCE_LABELS[CONFIDENCE_LEVELS[value]] : 'no confidence'}`;
+        default: return `${EVENT_LABELS[type]} • Q${index + 1}`;
+    }
+}
+
+let replayTimer: number | null = null;
+
+function stopReplay() {
+    if (replayTimer !== null) {
+        clearInterval(replayTimer);
+        replayTimer = null;
+    }
+}
+
+function renderAttemptReplay(attempt: TestAttempt) {
+    const container = document.getElementById('attempt-replay-view');
+    if (!container) return;
+    stopReplay();
+
+    const events = attempt.events;
+    if (!events || events.length < 2) {
+        container.innerHTML = `<p class="no-data">No event log was recorded for this attempt. Replays are available for attempts taken from now on.</p>`;
+        return;
+    }
+
+    const test = attempt.fullTest;
+    const count = test.questions.length;
+    const end = events[events.length - 1][0];
+    const metrics = metricsFromEvents(events, count);
+    const position = (time: number) => `${(time / Math.max(end, 1)) * 100}%`;
+
+    // Idle and paused stretches shown as bands on the timeline
+    const segments: { kind: 'idle' | 'pause'; from: number; to: number }[] = [];
+    let open: { kind: 'idle' | 'pause'; from: number } | null = null;
+    events.forEach(([time, type]) => {
+        if (open?.kind === 'idle' && type !== 'idle') {
+            segments.push({ ...open, to: time });
+            open = null;
+        }
+        if (type === 'pause') open = { kind: 'pause', from: time };
+        else if (type === 'resume' && open?.kind === 'pause') {
+            segments.push({ ...open, to: time });
+            open = null;
+        } else if (type === 'idle') open = { kind: 'idle', from: time };
+    });
+
+    container.innerHTML = `
+        <div class="difficulty-overview">
+            <h4><span class="material-symbols-outlined">movie</span> Attempt Replay</h4>
+            <p class="analysis-description">
+                ${events.length} events over ${formatClock(Math.round(end / 10))} •
+                ${metrics.visits.length} visits • ${metrics.answerChanges.length} answer selections •
+                ${formatClock(Math.round(metrics.idleSeconds))} idle
+            </p>
+        </div>
+        <div class="replay-controls">
+            <button id="replay-play-btn" class="action-btn" title="Play / pause">
+                <span class="material-symbols-outlined">play_arrow</span>
+            </button>
+            <span id="replay-clock" class="replay-clock">${formatClock(0)}</span>
+            <select id="replay-speed" title="Playback speed">
+                <option value="10">10×</option>
+                <option value="30" selected>30×</option>
+                <option value="60">60×</option>
+                <option value="120">120×</option>
+            </select>
+        </div>
+        <div class="replay-timeline">
+            <div class="replay-track">
+                ${segments.map(segment => `<span class="replay-segment ${segment.kind}" style="left: ${position(segment.from)}; width: calc(${position(segment.to)} - ${position(segment.from)})" title="${segment.kind === 'idle' ? 'Idle' : 'Paused'} ${formatClock(Math.round((segment.to - segment.from) / 10))}"></span>`).join('')}
+                ${events.filter(event => event[1] === 'answer').map(event => `<span class="replay-tick" style="left: ${position(event[0])}" title="${formatClock(Math.floor(event[0] / 10))} ${describeEvent(event)}"></span>`).join('')}
+            </div>
+            <input type="range" id="replay-slider" min="0" max="${end}" value="0" step="1">
+        </div>
+        <div class="replay-body">
+            <div>
+                <div id="replay-palette" class="replay-palette"></div>
+                <div id="replay-question" class="replay-question"></div>
+            </div>
+            <ol id="replay-events" class="replay-events">
+                ${events.map((event, i) => `<li data-event-index="${i}" data-time="${event[0]}"><small>${formatClock(Math.floor(event[0] / 10))}</small> ${describeEvent(event)}</li>`).join('')}
+            </ol>
+        </div>
+    `;
+
+    const slider = container.querySelector('#replay-slider') as HTMLInputElement;
+    const playBtn = container.querySelector('#replay-play-btn') as HTMLButtonElement;
+    const speedSelect = container.querySelector('#replay-speed') as HTMLSelectElement;
+    const clock = container.querySelector('#replay-clock') as HTMLElement;
+    const palette = container.querySelector('#replay-palette') as HTMLElement;
+    const questionBox = container.querySelector('#replay-question') as HTMLElement;
+    const eventList = container.querySelector('#replay-events') as HTMLElement;
+
+    const show = (time: number) => {
+        const state = attemptStateAt(events, count, time);
+        clock.textContent = `${formatClock(Math.floor(time / 10))}${state.paused ? ' • paused' : state.idle ? ' • idle' : ''}`;
+        palette.innerHTML = test.questions.map((_, i) => {
+            const answered = state.answers[i] !== null;
+            const status = state.marked.has(i) ? (answered ? 'markedAndAnswered' : 'marked')
+                : answered ? 'answered' : state.visited.has(i) ? 'notAnswered' : 'notVisited';
+            return `<span class="palette-btn ${status} ${i === state.current ? 'current' : ''}">${i + 1}</span>`;
+        }).join('');
+
+        const q = test.questions[state.current];
+        const answer = state.answers[state.current];
+        const confidence = state.confidence[state.current];
+        questionBox.innerHTML = `
+            <p><strong>Q${state.current + 1}.</strong> ${questionPlainText(q, test)}</p>
+            <ol class="replay-options" type="A">
+                ${q.options.map((option, i) => `<li class="${i === answer ? 'selected' : ''} ${state.eliminated[state.current].includes(i) ? 'eliminated' : ''}">${option}</li>`).join('')}
+            </ol>
+            ${confidence ? `<p class="replay-confidence">Confidence: ${CONFIDENCE_LABELS[confidence]}</p>` : ''}
+        `;
+
+        eventList.querySelector('.active')?.classList.remove('active');
+        const activeEvent = eventList.querySelector(`[data-event-index="${state.eventIndex}"]`) as HTMLElement;
+        if (activeEvent) {
+            activeEvent.classList.add('active');
+            eventList.scrollTop = activeEvent.offsetTop - eventList.offsetTop - eventList.clientHeight / 2;
+        }
+    };
+
+    const setPlaying = (playing: boolean) => {
+        stopReplay();
+        playBtn.querySelector('.material-symbols-outlined').textContent = playing ? 'pause' : 'play_arrow';
+        if (!playing) return;
+        if (Number(slider.value) >= end) slider.value = '0';
+        // Ticks every 100ms, advancing the replay by `speed` deciseconds of attempt time
+        replayTimer = window.setInterval(() => {
+            const time = Math.min(end, Number(slider.value) + Number(speedSelect.value));
+            slider.value = String(time);
+            show(time);
+            if (time >= end) setPlaying(false);
+        }, 100);
+    };
+
+    playBtn.addEventListener('click', () => setPlaying(replayTimer === null));
+    slider.addEventListener('input', () => show(Number(slider.value)));
+    eventList.addEventListener('click', e => {
+        const item = (e.target as HTMLElement).closest('li') as HTMLElement;
+        if (!item) return;
+        slider.value = item.dataset.time;
+        show(Number(slider.value));
+    });
+
+    show(0);
+}
+
 // Difficulty Analysis
+// Accuracy and pace per declared difficulty level (questions labelled at generation or in the editor)
+function renderDeclaredDifficultySection(attempt: TestAttempt, avgTime: number): string {
+    const stats = {} as Record<Difficulty, { total: number; attempted: number; correct: number; time: number; missed: number[] }>;
+    DIFFICULTY_LEVELS.forEach(level => stats[level] = { total: 0, attempted: 0, correct: 0, time: 0, missed: [] });
+
+    attempt.fullTest.questions.forEach((q, i) => {
+        if (!q.difficulty) return;
+        const level = stats[q.difficulty];
+        const answer = attempt.userAnswers[i];
+        level.total++;
+        level.time += attempt.timePerQuestion[i] || 0;
+        if (answer === null) return;
+        level.attempted++;
+        if (isAnswerCorrect(q, answer)) level.correct++;
+        else level.missed.push(i + 1);
+    });
+
+    const labelled = DIFFICULTY_LEVELS.reduce((sum, level) => sum + stats[level].total, 0);
+    if (labelled === 0) {
+        return `
+            <div class="difficulty-overview declared-difficulty">
+                <h4><span class="material-symbols-outlined">signal_cellular_alt</span> Declared Difficulty</h4>
+                <p class="analysis-description">This test's questions have no difficulty labels. Set them in the editor (or generate a new test) to compare accuracy by difficulty.</p>
+            </div>
+        `;
+    }
+
+    const accuracy = (level: Difficulty) => stats[level].attempted > 0 ? (stats[level].correct / stats[level].attempted) * 100 : null;
+    const avgLevelTime = (level: Difficulty) => stats[level].total > 0 ? stats[level].time / stats[level].total : 0;
+    const icons: Record<Difficulty, string> = { easy: 'sentiment_satisfied', medium: 'sentiment_neutral', hard: 'local_fire_department' };
+
+    const cardsHTML = DIFFICULTY_LEVELS.map(level => {
+        const levelStats = stats[level];
+        const acc = accuracy(level);
+        const time = avgLevelTime(level);
+        return `
+            <div class="difficulty-card ${level}">
+                <div class="difficulty-header">
+                    <span class="material-symbols-outlined">${icons[level]}</span>
+                    <h5>${DIFFICULTY_LABELS[level]}</h5>
+                </div>
+                <div class="difficulty-stats">
+                    <div class="big-stat">${levelStats.total}</div>
+                    <div class="stat-detail">${levelStats.attempted} attempted • avg ${time.toFixed(0)}s${avgTime > 0 && levelStats.total > 0 ? ` (${(time / avgTime).toFixed(1)}× test avg)` : ''}</div>
+                </div>
+                <div class="difficulty-accuracy">
+                    <div class="accuracy-bar" style="--accuracy: ${acc ?? 0}%">
+                        <div class="accuracy-fill" style="background: ${acc !== null && acc >= 60 ? 'var(--success-color)' : 'var(--danger-color)'}"></div>
+                    </div>
+                    <span>${acc !== null ? `${acc.toFixed(0)}% accurate` : 'Not attempted'}</span>
+                </div>
+            </div>
+        `;
+    }).join('');
+
+    const easyAcc = accuracy('easy');
+    const mediumAcc = accuracy('medium');
+    const hardAcc = accuracy('hard');
+    let insight = { trend: 'neutral', icon: 'insights', title: 'Mixed Pattern', text: 'Your accuracy does not follow question difficulty closely. Review the missed questions below to find the gaps.' };
+    if (easyAcc !== null && (easyAcc < 70 || (mediumAcc !== null && easyAcc < mediumAcc))) {
+        insight = { trend: 'negative', icon: 'warning', title: 'Easy Marks Are Slipping', text: `Only ${easyAcc.toFixed(0)}% of your attempted easy questions were correct. These are the cheapest marks in the paper — read each statement carefully before answering.` };
+    } else if (avgLevelTime('easy') > avgLevelTime('hard') && stats.easy.total > 0 && stats.hard.total > 0) {
+        insight = { trend: 'negative', icon: 'hourglass_top', title: 'Too Long on Easy Questions', text: 'You spent more time per easy question than per hard one. Bank easy questions quickly to leave time for the hard ones.' };
+    } else if (hardAcc !== null && mediumAcc !== null && hardAcc >= mediumAcc) {
+        insight = { trend: 'positive', icon: 'military_tech', title: 'Strong on Hard Questions', text: 'Your accuracy holds up on hard questions. Keep attempting them — the marks are there for you.' };
+    } else if (easyAcc !== null && mediumAcc !== null && hardAcc !== null && easyAcc >= mediumAcc && mediumAcc >= hardAcc) {
+        insight = { trend: 'positive', icon: 'trending_down', title: 'Accuracy Tracks Difficulty', text: 'You are solid on easy questions and lose marks mostly as difficulty rises, as expected. Focus revision on the topics behind the hard misses.' };
+    }
+
+    const missedHTML = DIFFICULTY_LEVELS
+        .filter(level => stats[level].missed.length > 0)
+        .map(level => `<p><strong>${DIFFICULTY_LABELS[level]}:</strong> ${stats[level].missed.map(n => `Q${n}`).join(', ')}</p>`)
+        .join('');
+
+    return `
+        <div class="declared-difficulty">
+        <div class="difficulty-overview">
+            <h4><span class="material-symbols-outlined">signal_cellular_alt</span> Accuracy by Declared Difficulty</h4>
+            <p class="analysis-description">${labelled} of ${attempt.fullTest.questions.length} questions carry a difficulty label</p>
+        </div>
+        <div class="difficulty-grid">${cardsHTML}</div>
+        <div class="insight-box ${insight.trend}">
+            <span class="material-symbols-outlined">${insight.icon}</span>
+            <div class="insight-content">
+                <h5>${insight.title}</h5>
+                <p>${insight.text}</p>
+            </div>
+        </div>
+        ${missedHTML ? `<div class="difficulty-missed"><h5>Incorrect Answers by Difficulty</h5>${missedHTML}</div>` : ''}
+        </div>
+    `;
+}
+
 function renderDifficultyAnalysis(attempt: TestAttempt) {
     const difficultyContainer = document.getElementById('difficulty-analysis-view');
     if (!difficultyContainer) return;
@@ -3165,6 +8303,8 @@ function renderDifficultyAnalysis(attempt: TestAttempt) {
     const timeVsAccuracyTrend = slowAccuracy > quickAccuracy ? 'positive' : slowAccuracy < quickAccuracy ? 'negative' : 'neutral';
     
     difficultyContainer.innerHTML = `
+        ${renderDeclaredDifficultySection(attempt, avgTime)}
+
         <div class="difficulty-overview">
             <h4><span class="material-symbols-outlined">analytics</span> Time vs Accuracy Analysis</h4>
             <p class="analysis-description">Understanding how time spent correlates with your accuracy</p>
@@ -3237,13 +8377,21 @@ function renderDifficultyAnalysis(attempt: TestAttempt) {
     `;
 }
 
+function questionMarksBadge(attempt: TestAttempt, index: number): string {
+    const q = attempt.fullTest.questions[index];
+    if (q.scoring === 'dropped') return `<span class="marks-badge dropped">Dropped • not scored</span>`;
+    const { marks } = scoreQuestion(attempt.fullTest, index, attempt.userAnswers[index]);
+    const tone = marks > 0 ? 'positive' : marks < 0 ? 'negative' : '';
+    return `<span class="marks-badge ${tone}" title="Marking ${formatMarking(markingFor(attempt.fullTest, index))}">${q.scoring === 'bonus' ? 'Bonus • ' : ''}${formatMarks(marks)} marks</span>`;
+}
+
 function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttempt): string {
     const userAnswer = attempt.userAnswers[index];
     let userStatus = 'Unanswered';
     let statusClass = 'unanswered';
     let isIncorrect = false;
 
-    if (userAnswer === q.answer) {
+    if (isAnswerCorrect(q, userAnswer)) {
         userStatus = 'Correct';
         statusClass = 'correct';
     } else if (userAnswer !== null) {
@@ -3259,11 +8407,9 @@ function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttem
         return `<li class="${li_class}">${opt}</li>`;
     }).join('');
 
-    const analysisButtonHTML = isIncorrect ? `
-        <button class="deeper-analysis-btn" data-question-index="${index}">
-            <span class="material-symbols-outlined">psychology</span> Get Deeper AI Analysis
-        </button>
-    ` : '';
+    const cachedAnalysis = isIncorrect ? cachedAnalysisFor(attempt, index) : undefined;
+    // Review sessions aren't saved, so an analysis generated there would vanish with the report
+    const analysisButtonHTML = isIncorrect && !attempt.fullTest.reviewSession ? deeperAnalysisButtonHTML(index, Boolean(cachedAnalysis)) : '';
 
     return `
         <details class="results-detail-item status-${statusClass}">
@@ -3281,28 +8427,38 @@ function createQuestionReviewHTML(q: Question, index: number, attempt: TestAttem
             <div class="question-content-body">
                 <div class="question-header-full">
                      <span class="status-badge ${statusClass}">${userStatus}</span>
-                     <span class="question-meta-full">${q.subject} > ${q.topic}</span>
+                     <span class="question-meta-full">${q.subject} > ${q.topic}${q.sourcePage ? ` • p. ${q.sourcePage}` : ''}${q.type && q.type !== 'mcq' ? ` • ${QUESTION_TYPE_LABELS[q.type]}` : ''}${q.difficulty ? ` • ${DIFFICULTY_LABELS[q.difficulty]}` : ''}</span>
                      <span class="time-spent-badge">Time: ${attempt.timePerQuestion[index].toFixed(1)}s</span>
+                     ${questionMarksBadge(attempt, index)}
                 </div>
-                <p class="question-text-full">${q.question}</p>
+                <div class="question-text-full">${renderQuestionStem(q, attempt.fullTest, false)}</div>
                 <ul class="detail-options">${optionsHTML}</ul>
                 <div class="explanation-box">
                     <h4>Explanation</h4>
                     <p>${q.explanation}</p>
                 </div>
                 <div class="deeper-analysis-controls">${analysisButtonHTML}</div>
-                <div class="deeper-analysis-container hidden" data-analysis-for="${index}"></div>
+                <div class="deeper-analysis-container ${cachedAnalysis ? '' : 'hidden'}" data-analysis-for="${index}">${cachedAnalysis ? renderDeeperAnalysis(cachedAnalysis, q.options[userAnswer]) : ''}</div>
+                <div class="notebook-controls">
+                    <button class="notebook-btn" data-question-index="${index}">
+                        <span class="material-symbols-outlined">bookmark_add</span> <span class="notebook-btn-label">Save to Notebook</span>
+                    </button>
+                    <button class="revise-key-btn" data-question-index="${index}" title="Correct the answer key and re-score past attempts">
+                        <span class="material-symbols-outlined">gavel</span> Revise Key
+                    </button>
+                </div>
             </div>
         </details>
     `;
 }
 
 function renderMistakesReview(attempt: TestAttempt) {
+    const shownPassages = new Set<string>();
     const mistakesHTML = attempt.fullTest.questions
         .map((q, index) => {
             const userAnswer = attempt.userAnswers[index];
             const isMistake = userAnswer !== null && userAnswer !== q.answer;
-            return isMistake ? createQuestionReviewHTML(q, index, attempt) : '';
+            return isMistake ? renderPassageGroupHeader(attempt.fullTest, q, shownPassages) + createQuestionReviewHTML(q, index, attempt) : '';
         })
         .join('');
 
@@ -3310,17 +8466,74 @@ function renderMistakesReview(attempt: TestAttempt) {
         mistakesReviewContainer.innerHTML = `<p class="placeholder">No incorrect answers to review. Great job!</p>`;
         return;
     }
-
-    mistakesReviewContainer.innerHTML = mistakesHTML;
-}
-
-function renderAllQuestionsReview(attempt: TestAttempt) {
-    allQuestionsReviewContainer.innerHTML = attempt.fullTest.questions
-        .map((q, index) => createQuestionReviewHTML(q, index, attempt))
-        .join('');
+
+    mistakesReviewContainer.innerHTML = renderReviewQueueNote(attempt) + mistakesHTML;
+}
+
+function renderReviewQueueNote(attempt: TestAttempt): string {
+    const schedule = getFromStorage<ReviewSchedule>('reviewSchedule', {});
+    const queued = attempt.fullTest.questions.map(q => (q.id ? schedule[q.id] : undefined)).filter(Boolean);
+    if (queued.length === 0) return '';
+    const nextDue = new Date(Math.min(...queued.map(card => new Date(card.dueAt).getTime())));
+    return `
+        <div class="review-queue-note">
+            <span class="material-symbols-outlined">event_repeat</span>
+            <span>${queued.length} question(s) from this test are in your review queue. Next review: <strong>${nextDue.toLocaleDateString()}</strong>.</span>
+        </div>
+    `;
+}
+
+function renderAllQuestionsReview(attempt: TestAttempt) {
+    const shownPassages = new Set<string>();
+    allQuestionsReviewContainer.innerHTML = attempt.fullTest.questions
+        .map((q, index) => renderPassageGroupHeader(attempt.fullTest, q, shownPassages) + createQuestionReviewHTML(q, index, attempt))
+        .join('');
+}
+
+
+// Cached analyses are keyed by question and the option chosen. An answer-key revision keeps both,
+// so applyKeyRevision drops the revised question's analyses.
+const analysisKey = (q: Question, index: number, answer: number): string => `${q.id ?? `#${index}`}:${answer}`;
+
+function cachedAnalysisFor(attempt: TestAttempt, index: number): StoredAnalysis | undefined {
+    const answer = attempt.userAnswers[index];
+    if (answer === null) return undefined;
+    return attempt.deeperAnalyses?.[analysisKey(attempt.fullTest.questions[index], index, answer)];
+}
+
+function deeperAnalysisButtonHTML(index: number, regenerate: boolean): string {
+    return `
+        <button class="deeper-analysis-btn" data-question-index="${index}">
+            <span class="material-symbols-outlined">${regenerate ? 'refresh' : 'psychology'}</span> ${regenerate ? 'Regenerate AI Analysis' : 'Get Deeper AI Analysis'}
+        </button>
+    `;
+}
+
+function renderDeeperAnalysis(result: DeeperAnalysis | StoredAnalysis, userAnswerText: string): string {
+    let analysisHTML = `
+        <h4><span class="material-symbols-outlined">neurology</span> AI Deeper Analysis</h4>
+        <div class="analysis-section">
+            <h5>Analysis of Your Answer ("${userAnswerText}")</h5>
+            <p>${result.userAnswerAnalysis}</p>
+        </div>
+    `;
+
+    if (result.otherOptionsAnalysis && result.otherOptionsAnalysis.length > 0) {
+        analysisHTML += `
+            <div class="analysis-section">
+                <h5>Analysis of Other Options</h5>
+                <ul>
+                    ${result.otherOptionsAnalysis.map(opt => `<li><strong>${opt.option}:</strong> ${opt.reason}</li>`).join('')}
+                </ul>
+            </div>
+        `;
+    }
+    if ('generatedAt' in result) {
+        analysisHTML += `<p class="analysis-generated-at">Generated ${new Date(result.generatedAt).toLocaleString()}</p>`;
+    }
+    return analysisHTML;
 }
 
-
 async function handleDeeperAnalysis(button: HTMLElement) {
     if (!ai || !currentAttemptForReport) return;
 
@@ -3330,6 +8543,10 @@ async function handleDeeperAnalysis(button: HTMLElement) {
 
     if (userAnswerIndex === null) return; // Should not happen if button is only on incorrect answers
 
+    const attempt = currentAttemptForReport;
+    const hadAnalysis = Boolean(cachedAnalysisFor(attempt, questionIndex));
+    if (hadAnalysis && !confirm('Regenerate this analysis? This makes another AI request and replaces the saved one.')) return;
+
     const controlsContainer = button.parentElement;
     const analysisContainer = controlsContainer.nextElementSibling as HTMLElement;
 
@@ -3343,7 +8560,7 @@ async function handleDeeperAnalysis(button: HTMLElement) {
         const prompt = `
             Analyze the following competitive exam (UPSC-style) question. The user incorrectly chose the option: "${userAnswerText}". The correct answer is: "${correctAnswerText}".
             
-            Question: "${question.question}"
+            Question: "${questionPlainText(question, currentAttemptForReport.fullTest)}"
 
             Please provide a detailed analysis in a simple JSON format. The analysis should explain:
             1.  Why the user's selected answer ("${userAnswerText}") is incorrect.
@@ -3384,41 +8601,690 @@ async function handleDeeperAnalysis(button: HTMLElement) {
             },
         });
 
-        const result = JSON.parse(response.text);
-
-        let analysisHTML = `
-            <h4><span class="material-symbols-outlined">neurology</span> AI Deeper Analysis</h4>
-            <div class="analysis-section">
-                <h5>Analysis of Your Answer ("${userAnswerText}")</h5>
-                <p>${result.userAnswerAnalysis}</p>
-            </div>
-        `;
-        
-        if (result.otherOptionsAnalysis && result.otherOptionsAnalysis.length > 0) {
-             analysisHTML += `
-                <div class="analysis-section">
-                    <h5>Analysis of Other Options</h5>
-                    <ul>
-                        ${result.otherOptionsAnalysis.map(opt => `<li><strong>${opt.option}:</strong> ${opt.reason}</li>`).join('')}
-                    </ul>
-                </div>
-             `;
-        }
+        const result: StoredAnalysis = { ...JSON.parse(response.text), generatedAt: new Date().toISOString() };
+        const key = analysisKey(question, questionIndex, userAnswerIndex);
+        attempt.deeperAnalyses = { ...attempt.deeperAnalyses, [key]: result };
+        updateStoredAttempt(attempt, stored => {
+            stored.deeperAnalyses = { ...stored.deeperAnalyses, [key]: result };
+        });
+        attachAnalysisToNotebook(attempt, questionIndex, result);
 
-        analysisContainer.innerHTML = analysisHTML;
-        analysisContainer.classList.remove('hidden');
-        controlsContainer.classList.add('hidden'); // Hide the button/loader
+        // The question can be listed in both the mistakes and the all-questions tab
+        performanceReportView.querySelectorAll(`.deeper-analysis-container[data-analysis-for="${questionIndex}"]`).forEach((container: HTMLElement) => {
+            container.innerHTML = renderDeeperAnalysis(result, userAnswerText);
+            container.classList.remove('hidden');
+            (container.previousElementSibling as HTMLElement).innerHTML = deeperAnalysisButtonHTML(questionIndex, true);
+        });
 
     } catch (error) {
         console.error("Deeper Analysis Error:", error);
-        analysisContainer.innerHTML = `<p class="error">Could not generate analysis. Please try again later.</p>`;
-        analysisContainer.classList.remove('hidden');
+        if (hadAnalysis) {
+            showToast({ message: 'Could not regenerate the analysis. The saved one is kept.', type: 'error' });
+        } else {
+            analysisContainer.innerHTML = `<p class="error">Could not generate analysis. Please try again later.</p>`;
+            analysisContainer.classList.remove('hidden');
+        }
         controlsContainer.innerHTML = ''; // Clear loader
         controlsContainer.appendChild(button); // Restore button
     }
 }
 
 
+// --- Answer Key Revisions ---
+const loadKeyRevisions = (): AnswerKeyRevision[] => getFromStorage<AnswerKeyRevision[]>('answerKeyRevisions', []);
+
+// Question whose key is being revised in the modal
+let keyRevisionTarget: Question | null = null;
+
+const SCORING_LABELS: Record<QuestionScoring | 'normal', string> = { normal: 'Normal', bonus: 'Bonus (full marks to all)', dropped: 'Dropped (not scored)' };
+
+function describeKeyRevision(revision: Pick<AnswerKeyRevision, 'answer' | 'scoring'>): string {
+    const parts: string[] = [];
+    if (revision.answer) parts.push(`Answer ${optionLetter(revision.answer.from)} → ${optionLetter(revision.answer.to)}`);
+    if (revision.scoring) {
+        const { to } = revision.scoring;
+        parts.push(to === 'dropped' ? 'Question dropped' : to === 'bonus' ? 'Made a bonus question' : 'Normal scoring restored');
+    }
+    return parts.join(', ');
+}
+
+function renderKeyRevisionHistory(revisions: AnswerKeyRevision[]): string {
+    if (revisions.length === 0) return '';
+    return `
+        <ul class="key-revision-history">
+            ${revisions.map(revision => `
+                <li>
+                    <span class="material-symbols-outlined">gavel</span>
+                    <span>${new Date(revision.revisedAt).toLocaleDateString()} • ${describeKeyRevision(revision)}${revision.reason ? ` — ${revision.reason}` : ''} • ${revision.attemptsRescored} attempt(s) re-scored</span>
+                </li>
+            `).join('')}
+        </ul>
+    `;
+}
+
+const attemptsWithQuestion = (history: TestAttempt[], questionId: string) =>
+    history.filter(attempt => attempt.fullTest.questions.some(q => q.id === questionId));
+
+function openAnswerKeyModal(q: Question) {
+    if (!q.id) {
+        showToast({ message: 'Save the test before revising its answer key.', type: 'warning' });
+        return;
+    }
+    keyRevisionTarget = q;
+    const affected = attemptsWithQuestion(loadHistory(), q.id).length;
+    answerKeyModalBody.innerHTML = `
+        <p class="notebook-modal-question">${questionPlainText(q)}</p>
+        <label>Correct Answer</label>
+        <div class="options-editor">
+            ${q.options.map((option, i) => `
+                <label class="option-item">
+                    <input type="radio" name="key-revision-answer" value="${i}" ${q.answer === i ? 'checked' : ''}>
+                    <span>${optionLetter(i)}. ${option}</span>
+                </label>
+            `).join('')}
+        </div>
+        <label for="key-revision-scoring">Scoring</label>
+        <select id="key-revision-scoring">
+            ${(['normal', 'bonus', 'dropped'] as const).map(value => `
+                <option value="${value}" ${(q.scoring ?? 'normal') === value ? 'selected' : ''}>${SCORING_LABELS[value]}</option>
+            `).join('')}
+        </select>
+        <label for="key-revision-reason">Reason</label>
+        <textarea id="key-revision-reason" rows="3" placeholder="e.g., Revised UPSC answer key; option C is also correct"></textarea>
+        <p class="placeholder">${affected} past attempt(s) include this question and will be re-scored. The change is recorded on each of their reports.</p>
+        ${renderKeyRevisionHistory(loadKeyRevisions().filter(revision => revision.questionId === q.id))}
+    `;
+    answerKeyModal.classList.remove('hidden');
+}
+
+function closeAnswerKeyModal() {
+    answerKeyModal.classList.add('hidden');
+    keyRevisionTarget = null;
+}
+
+// Recomputes an attempt's stored results from its (revised) questions
+function rescoreAttempt(attempt: TestAttempt) {
+    const marks = scoreAnswers(attempt.fullTest, attempt.userAnswers);
+    attempt.score = scorePercentage(marks);
+    attempt.rawMarks = marks.rawMarks;
+    attempt.maxMarks = marks.maxMarks;
+    attempt.correctAnswers = marks.correct;
+    attempt.incorrectAnswers = marks.incorrect;
+    attempt.unanswered = marks.unanswered;
+}
+
+// Applies the revision to every test and past attempt holding the question, re-scoring the attempts
+function applyKeyRevision(questionId: string, change: Pick<AnswerKeyRevision, 'answer' | 'scoring' | 'reason'>): AnswerKeyRevision {
+    const revision: AnswerKeyRevision = {
+        id: createId('revision'),
+        questionId,
+        questionPreview: keyRevisionTarget ? questionPlainText(keyRevisionTarget).slice(0, 120) : '',
+        ...change,
+        revisedAt: new Date().toISOString(),
+        attemptsRescored: 0
+    };
+    const revise = (q: Question): Question => {
+        if (q.id !== questionId) return q;
+        const revised = { ...q };
+        if (change.answer) revised.answer = change.answer.to;
+        if (change.scoring) revised.scoring = change.scoring.to ?? undefined;
+        return revised;
+    };
+
+    const tests = loadTests();
+    tests.forEach(test => test.questions = test.questions.map(revise));
+    saveTests(tests);
+
+    const history = loadHistory();
+    attemptsWithQuestion(history, questionId).forEach(attempt => {
+        const scoreBefore = attempt.score;
+        const marksBefore = scoreAnswers(attempt.fullTest, attempt.userAnswers).rawMarks;
+        attempt.fullTest = { ...attempt.fullTest, questions: attempt.fullTest.questions.map(revise) };
+        if (change.answer && attempt.deeperAnalyses) {
+            // They explain the answer against the old key
+            attempt.deeperAnalyses = Object.fromEntries(
+                Object.entries(attempt.deeperAnalyses).filter(([key]) => !key.startsWith(`${questionId}:`))
+            );
+        }
+        rescoreAttempt(attempt);
+        attempt.keyRevisions = [...(attempt.keyRevisions ?? []), {
+            revisionId: revision.id,
+            questionIndex: attempt.fullTest.questions.findIndex(q => q.id === questionId),
+            description: describeKeyRevision(change),
+            reason: change.reason,
+            revisedAt: revision.revisedAt,
+            scoreBefore,
+            scoreAfter: attempt.score,
+            marksBefore,
+            marksAfter: scoreAnswers(attempt.fullTest, attempt.userAnswers).rawMarks
+        }];
+        revision.attemptsRescored++;
+    });
+    saveHistory(history);
+
+    saveToStorage('answerKeyRevisions', [...loadKeyRevisions(), revision]);
+    return revision;
+}
+
+applyKeyRevisionBtn.addEventListener('click', () => {
+    const q = keyRevisionTarget;
+    if (!q) return;
+    const answer = parseInt((answerKeyModalBody.querySelector('input[name="key-revision-answer"]:checked') as HTMLInputElement)?.value ?? String(q.answer), 10);
+    const scoringValue = (answerKeyModalBody.querySelector('#key-revision-scoring') as HTMLSelectElement).value;
+    const scoring: QuestionScoring | null = scoringValue === 'bonus' || scoringValue === 'dropped' ? scoringValue : null;
+    const reason = (answerKeyModalBody.querySelector('#key-revision-reason') as HTMLTextAreaElement).value.trim();
+
+    const change = {
+        ...(answer !== q.answer ? { answer: { from: q.answer, to: answer } } : {}),
+        ...(scoring !== (q.scoring ?? null) ? { scoring: { from: q.scoring ?? null, to: scoring } } : {}),
+        reason
+    };
+    if (!change.answer && !change.scoring) {
+        showToast({ message: 'Pick a different answer or scoring to revise the key.', type: 'warning' });
+        return;
+    }
+
+    const revision = applyKeyRevision(q.id, change);
+    closeAnswerKeyModal();
+    showToast({ title: 'Answer key revised', message: `${describeKeyRevision(revision)}. Re-scored ${revision.attemptsRescored} past attempt(s).`, type: 'success' });
+
+    // Refresh whichever view the revision was made from
+    if (!testDetailView.classList.contains('hidden') && currentTest) {
+        const revisedTest = loadTests().find(test => test.id === currentTest.id);
+        if (revisedTest) renderTestDetail(revisedTest);
+    } else if (!performanceReportView.classList.contains('hidden') && currentAttemptForReport) {
+        const { completedAt, testName } = currentAttemptForReport;
+        const revisedAttempt = loadHistory().find(attempt => attempt.completedAt === completedAt && attempt.testName === testName);
+        if (revisedAttempt) renderPerformanceReport(revisedAttempt, reportReturnView === performanceView);
+    }
+});
+
+closeAnswerKeyModalBtn.addEventListener('click', closeAnswerKeyModal);
+answerKeyModal.addEventListener('click', e => {
+    if (e.target === answerKeyModal) closeAnswerKeyModal();
+});
+
+function renderKeyRevisionAudit(attempt: TestAttempt) {
+    const revisions = attempt.keyRevisions ?? [];
+    keyRevisionsCard.classList.toggle('hidden', revisions.length === 0);
+    if (revisions.length === 0) return;
+    keyRevisionsContainer.innerHTML = `
+        <p class="analysis-description">
+            This result was re-scored after ${revisions.length} answer-key revision(s).
+            Score moved from ${revisions[0].scoreBefore.toFixed(1)}% to ${revisions[revisions.length - 1].scoreAfter.toFixed(1)}%.
+        </p>
+        <table class="elimination-table">
+            <thead>
+                <tr><th>Revised</th><th>Question</th><th>Change</th><th>Reason</th><th>Marks</th><th>Score</th></tr>
+            </thead>
+            <tbody>
+                ${revisions.map(revision => `
+                    <tr>
+                        <td>${new Date(revision.revisedAt).toLocaleString()}</td>
+                        <td>Q${revision.questionIndex + 1}</td>
+                        <td>${revision.description}</td>
+                        <td class="answer-trail">${revision.reason || '—'}</td>
+                        <td class="${revision.marksAfter > revision.marksBefore ? 'positive' : revision.marksAfter < revision.marksBefore ? 'negative' : ''}">${formatMarks(revision.marksAfter - revision.marksBefore)}</td>
+                        <td>${revision.scoreBefore.toFixed(1)}% → ${revision.scoreAfter.toFixed(1)}%</td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+    `;
+}
+
+// --- Mistake Notebook ---
+interface NotebookEntry {
+    id: string;
+    question: Question; // Snapshot as answered (passage inlined), so later test edits don't change the note
+    userAnswer: number | null;
+    notes: string;
+    tags: string[];
+    analysis?: DeeperAnalysis;
+    source: {
+        testId: string;
+        testName: string;
+        completedAt: string; // With testName, identifies the attempt
+        questionIndex: number;
+    };
+    createdAt: string;
+    updatedAt: string;
+}
+
+const NOTEBOOK_SUGGESTED_TAGS = ['static GK', 'silly mistake', 'concept gap', 'misread question', 'current affairs', 'revise again'];
+
+// Entry being edited in the notebook modal
+let notebookDraft: { entry: NotebookEntry; isNew: boolean } | null = null;
+
+const loadNotebook = (): NotebookEntry[] => getFromStorage<NotebookEntry[]>('notebook', []);
+const saveNotebook = (entries: NotebookEntry[]) => saveToStorage('notebook', entries);
+
+function notebookEntryFor(entries: NotebookEntry[], attempt: TestAttempt, questionIndex: number): NotebookEntry | undefined {
+    return entries.find(e =>
+        e.source.completedAt === attempt.completedAt &&
+        e.source.testName === attempt.testName &&
+        e.source.questionIndex === questionIndex
+    );
+}
+
+function notebookSnapshot(q: Question, test: Test): Question {
+    if (q.type !== 'comprehension') return q;
+    const { passageId, ...rest } = q;
+    return { ...rest, passage: passageFor(test, q)?.text };
+}
+
+function allNotebookTags(entries: NotebookEntry[]): string[] {
+    const tags = new Map<string, string>();
+    [...NOTEBOOK_SUGGESTED_TAGS, ...entries.flatMap(e => e.tags)].forEach(tag => {
+        if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+    });
+    return Array.from(tags.values());
+}
+
+function openNotebookModal(entry: NotebookEntry, isNew: boolean) {
+    notebookDraft = { entry, isNew };
+    notebookModalTitle.textContent = isNew ? 'Save to Notebook' : 'Edit Notebook Entry';
+    notebookModalQuestion.textContent = `${entry.source.testName} • Q${entry.source.questionIndex + 1}: ${entry.question.question}`;
+    notebookNotesInput.value = entry.notes;
+    notebookTagsInput.value = entry.tags.join(', ');
+    notebookTagSuggestions.innerHTML = allNotebookTags(loadNotebook()).map(tag => `
+        <button type="button" class="format-chip notebook-tag-suggestion" data-tag="${tag}">+ ${tag}</button>
+    `).join('');
+    notebookRemoveBtn.classList.toggle('hidden', isNew);
+    notebookModal.classList.remove('hidden');
+    notebookNotesInput.focus();
+}
+
+function openNotebookModalForQuestion(attempt: TestAttempt, questionIndex: number) {
+    const existing = notebookEntryFor(loadNotebook(), attempt, questionIndex);
+    if (existing) {
+        openNotebookModal(existing, false);
+        return;
+    }
+    const now = new Date().toISOString();
+    openNotebookModal({
+        id: createId('note'),
+        question: notebookSnapshot(attempt.fullTest.questions[questionIndex], attempt.fullTest),
+        userAnswer: attempt.userAnswers[questionIndex],
+        notes: '',
+        tags: [],
+        ...(cachedAnalysisFor(attempt, questionIndex) ? { analysis: cachedAnalysisFor(attempt, questionIndex) } : {}),
+        source: { testId: attempt.testId, testName: attempt.testName, completedAt: attempt.completedAt, questionIndex },
+        createdAt: now,
+        updatedAt: now
+    }, true);
+}
+
+function closeNotebookModal() {
+    notebookModal.classList.add('hidden');
+    notebookDraft = null;
+}
+
+function afterNotebookChange() {
+    if (currentAttemptForReport) refreshNotebookButtons(currentAttemptForReport);
+    if (!notebookView.classList.contains('hidden')) renderNotebook();
+}
+
+notebookSaveBtn.addEventListener('click', () => {
+    if (!notebookDraft) return;
+    const entries = loadNotebook();
+    const entry: NotebookEntry = {
+        ...notebookDraft.entry,
+        notes: notebookNotesInput.value.trim(),
+        tags: toStringList(notebookTagsInput.value.split(',')),
+        updatedAt: new Date().toISOString()
+    };
+    const index = entries.findIndex(e => e.id === entry.id);
+    if (index > -1) entries[index] = entry;
+    else entries.unshift(entry);
+    saveNotebook(entries);
+
+    showToast({ message: notebookDraft.isNew ? 'Saved to your notebook.' : 'Notebook entry updated.', type: 'success' });
+    closeNotebookModal();
+    afterNotebookChange();
+});
+
+notebookRemoveBtn.addEventListener('click', () => {
+    if (!notebookDraft || !confirm('Remove this question and your notes from the notebook?')) return;
+    saveNotebook(loadNotebook().filter(e => e.id !== notebookDraft.entry.id));
+    showToast({ message: 'Removed from your notebook.', type: 'success' });
+    closeNotebookModal();
+    afterNotebookChange();
+});
+
+notebookTagSuggestions.addEventListener('click', e => {
+    const chip = (e.target as HTMLElement).closest('.notebook-tag-suggestion') as HTMLElement;
+    if (!chip) return;
+    const tags = toStringList(notebookTagsInput.value.split(','));
+    if (!tags.some(tag => tag.toLowerCase() === chip.dataset.tag.toLowerCase())) tags.push(chip.dataset.tag);
+    notebookTagsInput.value = tags.join(', ');
+});
+
+closeNotebookModalBtn.addEventListener('click', closeNotebookModal);
+notebookModal.addEventListener('click', e => {
+    if (e.target === notebookModal) closeNotebookModal();
+});
+
+// Keeps the AI analysis on a saved entry when it is generated after the question was saved
+function attachAnalysisToNotebook(attempt: TestAttempt, questionIndex: number, analysis: DeeperAnalysis) {
+    const entries = loadNotebook();
+    const entry = notebookEntryFor(entries, attempt, questionIndex);
+    if (!entry) return;
+    entry.analysis = analysis;
+    entry.updatedAt = new Date().toISOString();
+    saveNotebook(entries);
+}
+
+function refreshNotebookButtons(attempt: TestAttempt) {
+    const entries = loadNotebook();
+    performanceReportView.querySelectorAll('.notebook-btn').forEach((button: HTMLElement) => {
+        const saved = Boolean(notebookEntryFor(entries, attempt, parseInt(button.dataset.questionIndex, 10)));
+        button.classList.toggle('saved', saved);
+        button.querySelector('.material-symbols-outlined').textContent = saved ? 'bookmark_added' : 'bookmark_add';
+        button.querySelector('.notebook-btn-label').textContent = saved ? 'Edit Notebook Note' : 'Save to Notebook';
+    });
+}
+
+function filteredNotebookEntries(): NotebookEntry[] {
+    const search = notebookSearchInput.value.trim().toLowerCase();
+    const subject = notebookSubjectSelect.value;
+    const tags = checkedValues(notebookTagFilters);
+    return loadNotebook().filter(entry => {
+        if (subject && syllabusBuckets(entry.question).subject !== subject) return false;
+        if (tags.length > 0 && !entry.tags.some(tag => tags.includes(tag))) return false;
+        if (!search) return true;
+        return [questionPlainText(entry.question), entry.question.explanation, entry.notes, entry.source.testName, ...entry.tags]
+            .some(text => text.toLowerCase().includes(search));
+    });
+}
+
+function renderNotebookFilters(entries: NotebookEntry[]) {
+    const selectedSubject = notebookSubjectSelect.value;
+    const subjects = Array.from(new Set(entries.map(e => syllabusBuckets(e.question).subject))).sort();
+    notebookSubjectSelect.innerHTML = `<option value="">All Subjects</option>` + subjects.map(subject => `
+        <option value="${subject}" ${subject === selectedSubject ? 'selected' : ''}>${subject}</option>
+    `).join('');
+
+    const selectedTags = checkedValues(notebookTagFilters);
+    const usedTags = Array.from(new Set(entries.flatMap(e => e.tags))).sort((a, b) => a.localeCompare(b));
+    notebookTagFilters.innerHTML = usedTags.map(tag => `
+        <label class="format-chip"><input type="checkbox" value="${tag}" ${selectedTags.includes(tag) ? 'checked' : ''}> ${tag}</label>
+    `).join('');
+}
+
+function renderNotebookEntry(entry: NotebookEntry): string {
+    const q = entry.question;
+    const { subject, topic } = syllabusBuckets(q);
+    const userAnswerText = entry.userAnswer !== null ? q.options[entry.userAnswer] : undefined;
+    const optionsHTML = q.options.map((opt, optIndex) => {
+        let liClass = 'detail-option-item';
+        if (optIndex === q.answer) liClass += ' correct';
+        if (optIndex === entry.userAnswer && optIndex !== q.answer) liClass += ' user-incorrect';
+        return `<li class="${liClass}">${opt}</li>`;
+    }).join('');
+
+    return `
+        <div class="notebook-entry report-card" data-entry-id="${entry.id}">
+            <div class="notebook-entry-header">
+                <span class="question-meta-full">${subject} > ${topic}</span>
+                <div class="notebook-entry-actions">
+                    <button class="icon-btn notebook-open-attempt" title="Open the attempt report">
+                        <span class="material-symbols-outlined">open_in_new</span>
+                    </button>
+                    <button class="icon-btn notebook-edit" title="Edit notes and tags">
+                        <span class="material-symbols-outlined">edit</span>
+                    </button>
+                </div>
+            </div>
+            <div class="question-text-full">${renderQuestionStem(q)}</div>
+            <ul class="detail-options">${optionsHTML}</ul>
+            ${entry.notes ? `
+                <div class="notebook-notes">
+                    <h4><span class="material-symbols-outlined">edit_note</span> My Notes</h4>
+                    <p>${entry.notes.replace(/\n/g, '<br>')}</p>
+                </div>
+            ` : ''}
+            <details class="notebook-explanation">
+                <summary>Explanation${entry.analysis ? ' & AI analysis' : ''}</summary>
+                <div class="explanation-box">
+                    <h4>Explanation</h4>
+                    <p>${q.explanation}</p>
+                </div>
+                ${entry.analysis && userAnswerText !== undefined ? `<div class="deeper-analysis-container">${renderDeeperAnalysis(entry.analysis, userAnswerText)}</div>` : ''}
+            </details>
+            <div class="notebook-entry-footer">
+                <div class="notebook-tags">${entry.tags.map(tag => `<span class="notebook-tag">${tag}</span>`).join('')}</div>
+                <span class="notebook-source">${entry.source.testName} • Q${entry.source.questionIndex + 1} • ${new Date(entry.source.completedAt).toLocaleDateString()}</span>
+            </div>
+        </div>
+    `;
+}
+
+function renderNotebook() {
+    const entries = loadNotebook();
+    renderNotebookFilters(entries);
+    if (entries.length === 0) {
+        notebookContainer.innerHTML = `<p class="placeholder">Your notebook is empty. Use "Save to Notebook" on any question in a test report.</p>`;
+        return;
+    }
+    const filtered = filteredNotebookEntries();
+    notebookContainer.innerHTML = filtered.length > 0
+        ? filtered.map(renderNotebookEntry).join('')
+        : `<p class="placeholder">No notebook entries match your search.</p>`;
+}
+
+notebookSearchInput.addEventListener('input', renderNotebook);
+notebookSubjectSelect.addEventListener('change', renderNotebook);
+notebookTagFilters.addEventListener('change', renderNotebook);
+
+notebookContainer.addEventListener('click', e => {
+    const target = e.target as HTMLElement;
+    const card = target.closest('.notebook-entry') as HTMLElement;
+    if (!card) return;
+    const entry = loadNotebook().find(en => en.id === card.dataset.entryId);
+    if (!entry) return;
+
+    if (target.closest('.notebook-edit')) {
+        openNotebookModal(entry, false);
+    } else if (target.closest('.notebook-open-attempt')) {
+        const attempt = loadHistory().find(a => a.completedAt === entry.source.completedAt && a.testName === entry.source.testName);
+        if (!attempt) {
+            showToast({ message: 'The original attempt is no longer in your results.', type: 'warning' });
+            return;
+        }
+        renderPerformanceReport(attempt, true);
+        showView(performanceReportView);
+    }
+});
+
+function notebookEntryMarkdown(entry: NotebookEntry, number: number): string {
+    const q = entry.question;
+    const { subject, topic } = syllabusBuckets(q);
+    const letter = (i: number) => String.fromCharCode(97 + i);
+    const lines = [
+        `## ${number}. ${subject} › ${topic}`,
+        '',
+        questionPlainText(q).split('\n').join('  \n'),
+        '',
+        ...q.options.map((opt, i) => `- ${letter(i)}) ${opt}${i === q.answer ? ' ✅' : ''}${i === entry.userAnswer && i !== q.answer ? ' ❌ (your answer)' : ''}`),
+        '',
+        `**Your answer:** ${entry.userAnswer !== null ? `${letter(entry.userAnswer)}) ${q.options[entry.userAnswer]}` : 'Not answered'}  `,
+        `**Correct answer:** ${letter(q.answer)}) ${q.options[q.answer]}`,
+        '',
+        `**Explanation:** ${q.explanation}`
+    ];
+    if (entry.analysis) {
+        lines.push('', `**AI analysis:** ${entry.analysis.userAnswerAnalysis}`);
+        entry.analysis.otherOptionsAnalysis?.forEach(opt => lines.push(`- *${opt.option}:* ${opt.reason}`));
+    }
+    if (entry.notes) lines.push('', '**My notes:**', '', ...entry.notes.split('\n').map(line => `> ${line}`));
+    if (entry.tags.length > 0) lines.push('', `**Tags:** ${entry.tags.map(tag => `\`${tag}\``).join(', ')}`);
+    lines.push('', `_From "${entry.source.testName}", Q${entry.source.questionIndex + 1}, attempted ${new Date(entry.source.completedAt).toLocaleString()}_`, '', '---', '');
+    return lines.join('\n');
+}
+
+exportNotebookBtn.addEventListener('click', () => {
+    const entries = filteredNotebookEntries();
+    if (entries.length === 0) {
+        showToast({ message: 'No notebook entries to export.', type: 'info' });
+        return;
+    }
+    const markdown = [
+        '# Mistake Notebook',
+        '',
+        `_Exported ${new Date().toLocaleString()} • ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}_`,
+        '',
+        ...entries.map((entry, i) => notebookEntryMarkdown(entry, i + 1))
+    ].join('\n');
+
+    const blob = new Blob([markdown], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `upsc-mistake-notebook-${new Date().toISOString().split('T')[0]}.md`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    showToast({ message: `Exported ${entries.length} notebook entr${entries.length === 1 ? 'y' : 'ies'}.`, type: 'success' });
+});
+
+// --- Topic Mastery ---
+// A 1PL (Rasch) ability per syllabus topic, updated after every question outcome with a Gaussian
+// approximation so each estimate carries its own uncertainty. Abilities and difficulties are logits.
+interface TopicMastery {
+    subject: string;
+    topic: string;
+    ability: number;
+    variance: number;
+    responses: number;
+    correct: number;
+}
+
+interface MasteryInterval {
+    estimate: number; // Chance of answering a medium question correctly, in percent
+    low: number;
+    high: number;
+}
+
+const ABILITY_PRIOR_VARIANCE = 1;
+const ABILITY_DRIFT = 0.02; // Variance added before each outcome so older results count for less
+const MASTERY_INTERVAL_Z = 1.2816; // 80% interval
+const MASTERY_THRESHOLD = 50;
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+
+// difficultyScore 1–10 maps onto −2…+2; levels without a score sit at −1, 0 or +1
+function itemDifficulty(q: Question): number {
+    if (q.difficultyScore !== undefined) return ((q.difficultyScore - 5.5) / 4.5) * 2;
+    return q.difficulty === 'easy' ? -1 : q.difficulty === 'hard' ? 1 : 0;
+}
+
+function updateAbility(mastery: TopicMastery, correct: boolean, difficulty: number) {
+    mastery.variance += ABILITY_DRIFT;
+    const p = logistic(mastery.ability - difficulty);
+    mastery.variance = 1 / (1 / mastery.variance + p * (1 - p));
+    mastery.ability += mastery.variance * ((correct ? 1 : 0) - p);
+    mastery.responses++;
+    if (correct) mastery.correct++;
+}
+
+// Replays the history oldest first. Unanswered questions count as misses, as they do for accuracy;
+// bonus and dropped questions say nothing about ability and are skipped.
+function estimateTopicMastery(history: TestAttempt[]): TopicMastery[] {
+    const byTopic = new Map<string, TopicMastery>();
+    [...history]
+        .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime())
+        .forEach(attempt => attempt.fullTest.questions.forEach((q, i) => {
+            if (q.scoring) return;
+            const { subject, topic } = syllabusBuckets(q);
+            const key = `${subject}\u0000${topic}`;
+            if (!byTopic.has(key)) byTopic.set(key, { subject, topic, ability: 0, variance: ABILITY_PRIOR_VARIANCE, responses: 0, correct: 0 });
+            updateAbility(byTopic.get(key), isAnswerCorrect(q, attempt.userAnswers[i]), itemDifficulty(q));
+        }));
+    return [...byTopic.values()];
+}
+
+function masteryInterval(mastery: TopicMastery): MasteryInterval {
+    const margin = MASTERY_INTERVAL_Z * Math.sqrt(mastery.variance);
+    return {
+        estimate: logistic(mastery.ability) * 100,
+        low: logistic(mastery.ability - margin) * 100,
+        high: logistic(mastery.ability + margin) * 100
+    };
+}
+
+// Strong and weak only once the whole interval is clear of the threshold, most certain first
+function classifyMastery(topics: TopicMastery[]): { strong: TopicMastery[]; weak: TopicMastery[]; uncertain: number } {
+    const ranked = topics.map(mastery => ({ mastery, interval: masteryInterval(mastery) }));
+    const strong = ranked.filter(t => t.interval.low > MASTERY_THRESHOLD).sort((a, b) => b.interval.low - a.interval.low);
+    const weak = ranked.filter(t => t.interval.high < MASTERY_THRESHOLD).sort((a, b) => a.interval.high - b.interval.high);
+    return {
+        strong: strong.map(t => t.mastery),
+        weak: weak.map(t => t.mastery),
+        uncertain: topics.length - strong.length - weak.length
+    };
+}
+
+const masteryColor = (estimate: number) => (estimate > 60 ? 'var(--success-color)' : estimate > 40 ? 'var(--warning-color)' : 'var(--danger-color)');
+
+function renderMasteryInsights(topics: TopicMastery[], limit: number, showSubject: boolean): string {
+    const { strong, weak } = classifyMastery(topics);
+    const item = (mastery: TopicMastery, rank: number, strength: boolean) => {
+        const { estimate, low, high } = masteryInterval(mastery);
+        return `
+            <div class="insight-item">
+                <div class="insight-rank ${strength ? '' : 'warn'}">#${rank}</div>
+                <div class="insight-content">
+                    <div class="topic-name">${mastery.topic}</div>
+                    <div class="topic-meta">
+                        ${showSubject ? `<span>${mastery.subject}</span> • ` : ''}
+                        <span>${mastery.correct}/${mastery.responses} correct</span> •
+                        <span>${low.toFixed(0)}–${high.toFixed(0)}% likely</span>
+                    </div>
+                </div>
+                <div class="topic-score ${strength ? 'success' : 'danger'}">${estimate.toFixed(0)}%</div>
+            </div>
+        `;
+    };
+    return `
+        <div class="topic-insights-grid enhanced">
+            <div class="insight-card strength">
+                <div class="insight-card-header">
+                    <span class="material-symbols-outlined">trending_up</span>
+                    <h4>Strong Topics</h4>
+                </div>
+                ${strong.length > 0 ? strong.slice(0, limit).map((t, idx) => item(t, idx + 1, true)).join('') : '<p class="no-data">No topic is clearly mastered yet. Answer more questions to narrow the estimates.</p>'}
+            </div>
+            <div class="insight-card weakness">
+                <div class="insight-card-header">
+                    <span class="material-symbols-outlined">trending_down</span>
+                    <h4>Need Improvement</h4>
+                </div>
+                ${weak.length > 0 ? weak.slice(0, limit).map((t, idx) => item(t, idx + 1, false)).join('') : '<p class="no-data">No topic is clearly weak yet.</p>'}
+            </div>
+        </div>
+    `;
+}
+
+function renderTopicMastery(topics: TopicMastery[]) {
+    const { strong, weak, uncertain } = classifyMastery(topics);
+
+    topicMasteryContainer.innerHTML = `
+        <div class="score-trend-header">
+            <h4><span class="material-symbols-outlined">psychology</span> Topic Mastery</h4>
+            <div class="trend-stats-mini">
+                <div class="trend-stat"><span>Topics:</span> <strong>${topics.length}</strong></div>
+                <div class="trend-stat"><span>Strong:</span> <strong style="color: var(--success-color);">${strong.length}</strong></div>
+                <div class="trend-stat"><span>Weak:</span> <strong style="color: var(--danger-color);">${weak.length}</strong></div>
+                <div class="trend-stat"><span>Not Yet Clear:</span> <strong>${uncertain}</strong></div>
+            </div>
+        </div>
+        <p class="analysis-description">Mastery is your estimated chance of answering a medium-difficulty question on the topic, updated after every answer and weighted by each question's difficulty. A topic counts as strong or weak once its 80% range is clear of ${MASTERY_THRESHOLD}%.</p>
+        ${renderMasteryInsights(topics, 5, true)}
+    `;
+}
+
 // --- Analytics View Logic ---
 
 // Type definitions for Analytics Aggregation
@@ -3431,20 +9297,26 @@ interface SubjectAnalytics {
 
 // Global variable to store aggregated data for the modal
 let aggregatedSubjectData: { [key: string]: SubjectAnalytics } = {};
+let topicMasteryData: TopicMastery[] = [];
 
 function renderAnalyticsDashboard() {
     try {
-        const history = getFromStorage<TestAttempt[]>('performanceHistory', []);
+        // Attempts from before practice mode have no mode and count as exams
+        const mode = analyticsModeSelect.value;
+        const history = loadHistory().filter(attempt => mode === 'all' || (attempt.mode ?? 'exam') === mode);
         
         // Clear any existing trend graph to prevent duplicates
         const existingTrend = document.querySelector('.score-trend-card');
         if (existingTrend) {
             existingTrend.remove();
         }
+        document.querySelector('.retention-curve-card')?.remove();
+        document.querySelector('.strategy-card')?.remove();
         
         if (history.length === 0) {
-            analyticsStatsGrid.innerHTML = `<p class="placeholder" style="grid-column: 1/-1;">No data available. Complete some tests to see your analytics.</p>`;
+            analyticsStatsGrid.innerHTML = `<p class="placeholder" style="grid-column: 1/-1;">${mode === 'all' ? 'No data available. Complete some tests to see your analytics.' : `No ${mode} attempts yet.`}</p>`;
             subjectMasteryContainer.innerHTML = '';
+            topicMasteryContainer.innerHTML = '';
             return;
         }
 
@@ -3495,8 +9367,8 @@ function renderAnalyticsDashboard() {
 
         // Aggregate Subject and Topic Stats
         attempt.fullTest.questions.forEach((q, i) => {
-            const subject = q.subject || 'Uncategorized';
-            const topic = q.topic || 'General';
+            // Bucket on the canonical syllabus node so "Polity"/"Indian Polity"/"Constitution" merge
+            const { subject, topic } = syllabusBuckets(q);
             
             // --- Subject Aggregation ---
             if (!aggregatedSubjectData[subject]) {
@@ -3572,6 +9444,10 @@ function renderAnalyticsDashboard() {
     
     // Add Score Trend Graph
     renderScoreTrendGraph(sortedHistory);
+    renderRetentionCurve();
+    renderStrategyRecommendation(sortedHistory);
+    topicMasteryData = estimateTopicMastery(history);
+    renderTopicMastery(topicMasteryData);
 
     // 4. Render Subject Mastery Cards (Interactive)
     const sortedSubjects = Object.entries(aggregatedSubjectData)
@@ -3609,6 +9485,7 @@ function renderAnalyticsDashboard() {
         console.error('Error rendering analytics dashboard:', error);
         analyticsStatsGrid.innerHTML = `<p class="placeholder" style="grid-column: 1/-1;">Error loading analytics. Please try again.</p>`;
         subjectMasteryContainer.innerHTML = '';
+        topicMasteryContainer.innerHTML = '';
     }
 }
 
@@ -3626,6 +9503,10 @@ function renderScoreTrendGraph(sortedHistory: TestAttempt[]) {
     
     // Enhanced score trend with more features
     const recentTests = sortedHistory.slice(0, 10).reverse();
+    const settings = loadCutoffSettings();
+    const cutoffs = recentTests.map(attempt => compareWithCutoff(attempt, cutoffProfileFor(attempt.fullTest, settings)));
+    const cleared = cutoffs.filter(result => result.qualified).length;
+    const latestDistance = cutoffs[cutoffs.length - 1].distance;
     const avgScore = recentTests.reduce((sum, a) => sum + a.score, 0) / recentTests.length;
     const maxScore = Math.max(...recentTests.map(a => a.score));
     const minScore = Math.min(...recentTests.map(a => a.score));
@@ -3644,17 +9525,27 @@ function renderScoreTrendGraph(sortedHistory: TestAttempt[]) {
                         ${improvement >= 0 ? '+' : ''}${improvement.toFixed(1)}%
                     </strong>
                 </div>
+                <div class="trend-stat"><span>Cleared:</span> <strong>${cleared}/${recentTests.length}</strong></div>
             </div>
         </div>
+        <div class="cutoff-default-row">
+            <label for="default-cutoff-select">Default cut-off</label>
+            <select id="default-cutoff-select">${renderCutoffOptions(settings.defaultProfileId, false, settings)}<option value="${ADD_CUSTOM_CUTOFF}">Add custom cut-off…</option></select>
+            <span class="trend-legend"><span class="trend-cutoff-swatch"></span> Cut-off for each test</span>
+        </div>
         <div class="score-trend-graph enhanced">
             ${recentTests.map((attempt, i) => {
                 const height = Math.max(attempt.score, 5);
                 const barColor = attempt.score >= 70 ? 'var(--success-color)' : attempt.score >= 50 ? 'var(--info-color)' : attempt.score >= 40 ? 'var(--warning-color)' : 'var(--danger-color)';
                 const date = new Date(attempt.completedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+                const cutoff = cutoffs[i];
                 return `
-                    <div class="trend-bar-container" title="${attempt.testName}: ${attempt.score.toFixed(1)}%">
-                        <div class="trend-bar" style="height: ${height}%; background: ${barColor}">
-                            <span class="trend-bar-value">${attempt.score.toFixed(0)}%</span>
+                    <div class="trend-bar-container" title="${attempt.testName}: ${attempt.score.toFixed(1)}% • ${cutoff.profile.name} ${cutoffPercentage(cutoff.profile).toFixed(1)}% • ${formatMarks(cutoff.distance)} marks">
+                        <div class="trend-bar-track">
+                            <div class="trend-cutoff-marker" style="bottom: ${cutoffPercentage(cutoff.profile)}%"></div>
+                            <div class="trend-bar" style="height: ${height}%; background: ${barColor}">
+                                <span class="trend-bar-value">${attempt.score.toFixed(0)}%</span>
+                            </div>
                         </div>
                         <span class="trend-label">${date}</span>
                     </div>
@@ -3666,13 +9557,148 @@ function renderScoreTrendGraph(sortedHistory: TestAttempt[]) {
             ${improvement > 5 ? '<p class="insight-positive">📈 Great improvement! Your scores are trending upward.</p>' : 
               improvement < -5 ? '<p class="insight-negative">📉 Scores declining. Review weak areas and practice more.</p>' : 
               '<p class="insight-neutral">➡️ Scores are stable. Focus on consistency and weak topics.</p>'}
+            ${latestDistance >= 0
+                ? `<p class="insight-positive">✅ Your latest test cleared its cut-off by ${latestDistance.toFixed(2)} marks.</p>`
+                : `<p class="insight-negative">🎯 Your latest test was ${Math.abs(latestDistance).toFixed(2)} marks short of its cut-off.</p>`}
+            ${(Object.keys(PAPER_LABELS) as Paper[]).map(paper => {
+                const results = cutoffs.filter(result => result.profile.paper === paper);
+                if (results.length === 0) return '';
+                const avgDistance = results.reduce((sum, result) => sum + result.distance, 0) / results.length;
+                return `<p>${PAPER_LABELS[paper]}: passed ${results.filter(result => result.qualified).length} of ${results.length} • average ${formatMarks(avgDistance)} marks from the cut-off</p>`;
+            }).join('')}
         </div>
     `;
+
+    trendContainer.querySelector('#default-cutoff-select').addEventListener('change', e => {
+        const value = (e.target as HTMLSelectElement).value;
+        const id = value === ADD_CUSTOM_CUTOFF ? addCustomCutoff() : value;
+        if (id) saveToStorage('cutoffSettings', { ...loadCutoffSettings(), defaultProfileId: id });
+        renderAnalyticsDashboard();
+    });
     
     // Insert after stats grid
     analyticsStatsGrid.parentNode?.insertBefore(trendContainer, analyticsStatsGrid.nextSibling);
 }
 
+// Retention Curve: share of review answers recalled, by days since the question was last seen
+const RETENTION_BUCKETS = [
+    { label: 'Same day', maxDays: 0 },
+    { label: '1 day', maxDays: 1 },
+    { label: '2–3 days', maxDays: 3 },
+    { label: '4–7 days', maxDays: 7 },
+    { label: '1–2 wks', maxDays: 14 },
+    { label: '2–4 wks', maxDays: 30 },
+    { label: '1 mo+', maxDays: Infinity }
+];
+
+function renderRetentionCurve() {
+    const cards = Object.values(getFromStorage<ReviewSchedule>('reviewSchedule', {}));
+    if (cards.length === 0) return;
+
+    const reviews = cards.flatMap(card => card.log);
+    const buckets = RETENTION_BUCKETS.map(bucket => ({ ...bucket, total: 0, recalled: 0 }));
+    reviews.forEach(review => {
+        const bucket = buckets.find(b => review.elapsedDays <= b.maxDays);
+        bucket.total++;
+        if (review.correct) bucket.recalled++;
+    });
+    const recalled = reviews.filter(r => r.correct).length;
+    const recallRate = reviews.length > 0 ? (recalled / reviews.length) * 100 : 0;
+    const mature = cards.filter(card => card.interval >= MATURE_INTERVAL_DAYS).length;
+
+    const retentionContainer = document.createElement('div');
+    retentionContainer.className = 'report-card retention-curve-card';
+    retentionContainer.innerHTML = `
+        <div class="score-trend-header">
+            <h3><span class="material-symbols-outlined">event_repeat</span> Retention Curve</h3>
+            <div class="trend-stats-mini">
+                <div class="trend-stat"><span>In Queue:</span> <strong>${cards.length}</strong></div>
+                <div class="trend-stat"><span>Due Today:</span> <strong style="color: var(--warning-color);">${dueReviewCards().length}</strong></div>
+                <div class="trend-stat"><span>Mature:</span> <strong style="color: var(--success-color);">${mature}</strong></div>
+                <div class="trend-stat"><span>Recall:</span> <strong>${reviews.length > 0 ? `${recallRate.toFixed(1)}%` : '—'}</strong></div>
+            </div>
+        </div>
+        ${reviews.length === 0 ? `
+            <p class="placeholder">No reviews yet. Your curve appears once you answer questions from the review queue.</p>
+        ` : `
+            <div class="score-trend-graph enhanced">
+                ${buckets.map(bucket => {
+                    const rate = bucket.total > 0 ? (bucket.recalled / bucket.total) * 100 : 0;
+                    const barColor = rate >= 80 ? 'var(--success-color)' : rate >= 60 ? 'var(--info-color)' : rate >= 40 ? 'var(--warning-color)' : 'var(--danger-color)';
+                    return `
+                        <div class="trend-bar-container" title="${bucket.label}: ${bucket.recalled}/${bucket.total} recalled">
+                            ${bucket.total > 0 ? `
+                                <div class="trend-bar" style="height: ${Math.max(rate, 5)}%; background: ${barColor}">
+                                    <span class="trend-bar-value">${rate.toFixed(0)}%</span>
+                                </div>
+                            ` : ''}
+                            <span class="trend-label">${bucket.label}</span>
+                        </div>
+                    `;
+                }).join('')}
+            </div>
+            <div class="trend-insights">
+                <p><strong>${reviews.length} review answer(s)</strong> by days since the question was last seen. Mature questions are spaced ${MATURE_INTERVAL_DAYS}+ days apart.</p>
+            </div>
+        `}
+    `;
+
+    const anchor = document.querySelector('.score-trend-card') ?? analyticsStatsGrid;
+    anchor.parentNode?.insertBefore(retentionContainer, anchor.nextSibling);
+}
+
+function renderStrategyRecommendation(history: TestAttempt[]) {
+    const model = buildAccuracyModel(history);
+    const questions = history.flatMap(attempt => strategyQuestions(attempt, model));
+    const results = compareStrategies(questions);
+    const best = results[0];
+    const actual = history.reduce((total, attempt) => {
+        const marks = attemptMarks(attempt);
+        return { raw: total.raw + marks.raw, max: total.max + marks.max };
+    }, { raw: 0, max: 0 });
+    const actualPercentage = marksPercentage(actual.raw, actual.max);
+    const bestPercentage = marksPercentage(best.expected, best.maxMarks);
+    const markedShare = model.answers > 0 ? ((model.answers - model.byLevel.unmarked.attempted) / model.answers) * 100 : 0;
+
+    const strategyContainer = document.createElement('div');
+    strategyContainer.className = 'report-card strategy-card';
+    strategyContainer.innerHTML = `
+        <div class="score-trend-header">
+            <h3><span class="material-symbols-outlined">strategy</span> Attempt Strategy</h3>
+            <div class="trend-stats-mini">
+                <div class="trend-stat"><span>Answers:</span> <strong>${model.answers}</strong></div>
+                <div class="trend-stat"><span>With Confidence:</span> <strong>${markedShare.toFixed(0)}%</strong></div>
+                <div class="trend-stat"><span>Your Score:</span> <strong>${actualPercentage.toFixed(1)}%</strong></div>
+                <div class="trend-stat"><span>Best Expected:</span> <strong style="color: var(--success-color);">${bestPercentage.toFixed(1)}%</strong></div>
+            </div>
+        </div>
+        <table class="elimination-table strategy-table">
+            <thead>
+                <tr><th>Strategy</th><th>Attempted</th><th>Expected score</th><th>What-if score</th></tr>
+            </thead>
+            <tbody>
+                ${results.map(result => `
+                    <tr class="${result === best ? 'recommended' : ''}">
+                        <td class="answer-trail">${strategyLabel(result.strategy)}${result === best ? ' <small>Recommended</small>' : ''}</td>
+                        <td>${result.attempted}</td>
+                        <td>${marksPercentage(result.expected, result.maxMarks).toFixed(1)}%</td>
+                        <td class="${result.whatIf >= actual.raw ? 'positive' : 'negative'}">${marksPercentage(result.whatIf, result.maxMarks).toFixed(1)}%</td>
+                    </tr>
+                `).join('')}
+            </tbody>
+        </table>
+        <div class="trend-insights">
+            <p><strong>${strategyLabel(best.strategy)}</strong> is expected to score best under each test's own marking, from your accuracy at each confidence level and subject. What-if scores replay these ${history.length} attempt(s) with the strategy.</p>
+            ${markedShare < 50 ? '<p>Mark answers as Sure, 50-50 or Guess while attempting to sharpen the estimate.</p>' : ''}
+        </div>
+    `;
+
+    const anchor = document.querySelector('.retention-curve-card') ?? document.querySelector('.score-trend-card') ?? analyticsStatsGrid;
+    anchor.parentNode?.insertBefore(strategyContainer, anchor.nextSibling);
+}
+
+analyticsModeSelect.addEventListener('change', renderAnalyticsDashboard);
+
 // Add Event delegation for Subject Cards
 subjectMasteryContainer.addEventListener('click', (e) => {
     const target = e.target as HTMLElement;
@@ -3695,15 +9721,20 @@ function openSubjectModal(subject: string) {
     const avgTime = data.total > 0 ? (data.totalTime / data.total) : 0;
     const accuracyColor = accuracy > 60 ? 'var(--success-color)' : accuracy > 40 ? 'var(--warning-color)' : 'var(--danger-color)';
 
-    // Sort topics by accuracy
+    // Sort topics by estimated mastery rather than raw accuracy
+    const subjectMastery = topicMasteryData.filter(mastery => mastery.subject === subject);
     const sortedTopics = Object.entries(data.topics)
-        .map(([topic, stats]) => ({
-            topic,
-            accuracy: (stats.correct / stats.total) * 100,
-            correct: stats.correct,
-            total: stats.total
-        }))
-        .sort((a, b) => b.accuracy - a.accuracy);
+        .map(([topic, stats]) => {
+            const mastery = subjectMastery.find(m => m.topic === topic);
+            return {
+                topic,
+                accuracy: (stats.correct / stats.total) * 100,
+                correct: stats.correct,
+                total: stats.total,
+                interval: mastery ? masteryInterval(mastery) : null
+            };
+        })
+        .sort((a, b) => (b.interval?.estimate ?? -1) - (a.interval?.estimate ?? -1));
 
     modalBody.innerHTML = `
         <div class="modal-summary-grid">
@@ -3721,21 +9752,27 @@ function openSubjectModal(subject: string) {
             </div>
         </div>
 
-        <h4 style="margin-top: 1.5rem; border-bottom: 1px solid var(--card-border-color); padding-bottom: 0.5rem;">Topic Performance</h4>
+        <h4 style="margin-top: 1.5rem; border-bottom: 1px solid var(--card-border-color); padding-bottom: 0.5rem;">Strong &amp; Weak Topics</h4>
+        ${renderMasteryInsights(subjectMastery, 3, false)}
+
+        <h4 style="margin-top: 1.5rem; border-bottom: 1px solid var(--card-border-color); padding-bottom: 0.5rem;">Topic Mastery</h4>
         <div class="topic-grid-container">
             ${sortedTopics.map(t => {
-                const topicColor = t.accuracy > 60 ? 'var(--success-color)' : t.accuracy > 40 ? 'var(--warning-color)' : 'var(--danger-color)';
+                // Bonus and dropped questions alone leave a topic without an estimate
+                const mastery = t.interval?.estimate ?? t.accuracy;
+                const topicColor = masteryColor(mastery);
                 return `
                 <div class="topic-stat-card">
                     <div class="topic-header">
                         <span class="topic-name">${t.topic}</span>
-                        <span class="topic-score" style="color: ${topicColor}">${t.accuracy.toFixed(0)}%</span>
+                        <span class="topic-score" style="color: ${topicColor}">${mastery.toFixed(0)}%</span>
                     </div>
-                    <div class="progress-bar small">
-                        <div class="progress-bar-fill" style="width: ${t.accuracy}%; background-color: ${topicColor}"></div>
+                    <div class="progress-bar small mastery">
+                        ${t.interval ? `<div class="mastery-range" style="left: ${t.interval.low}%; width: ${t.interval.high - t.interval.low}%"></div>` : ''}
+                        <div class="progress-bar-fill" style="width: ${mastery}%; background-color: ${topicColor}"></div>
                     </div>
                     <div class="topic-details">
-                        ${t.correct}/${t.total} Correct
+                        ${t.correct}/${t.total} Correct${t.interval ? ` • ${t.interval.low.toFixed(0)}–${t.interval.high.toFixed(0)}% range` : ''}
                     </div>
                 </div>
             `}).join('')}